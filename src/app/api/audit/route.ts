@@ -0,0 +1,57 @@
+/**
+ * Audit log HTTP endpoint
+ *
+ * GET /api/audit?tool=run_terminal_command&since=2025-12-01T00:00:00Z&outcome=error&limit=100
+ *
+ * Same API keys as /api/mcp; the key needs the "audit" group (or "*").
+ */
+
+import { queryAuditLog } from '@/lib/audit-log'
+import { isToolAllowed, loadApiKeys, matchApiKey } from '@/lib/api-keys'
+
+function jsonResponse(status: number, body: unknown) {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { 'Content-Type': 'application/json' }
+  })
+}
+
+export async function GET(req: Request): Promise<Response> {
+  const keys = await loadApiKeys()
+
+  if (keys.length > 0) {
+    const providedKey = req.headers.get('x-api-key') || req.headers.get('authorization')?.replace('Bearer ', '')
+    const entry = providedKey ? matchApiKey(providedKey, keys) : null
+
+    if (!entry) {
+      return jsonResponse(401, { success: false, error: 'Unauthorized: Invalid or missing API key' })
+    }
+    if (!isToolAllowed('get_audit_log', entry.groups)) {
+      return jsonResponse(403, { success: false, error: `Forbidden: API key "${entry.name}" may not read the audit log` })
+    }
+  }
+
+  const params = new URL(req.url).searchParams
+  const outcome = params.get('outcome')
+  if (outcome && !['success', 'error', 'all'].includes(outcome)) {
+    return jsonResponse(400, { success: false, error: 'outcome must be success, error or all' })
+  }
+
+  try {
+    const { source, records } = await queryAuditLog({
+      tool: params.get('tool') || undefined,
+      caller: params.get('caller') || undefined,
+      since: params.get('since') || undefined,
+      until: params.get('until') || undefined,
+      outcome: (outcome as 'success' | 'error' | 'all' | null) || 'all',
+      limit: params.has('limit') ? Number(params.get('limit')) || undefined : undefined,
+    })
+
+    return jsonResponse(200, { success: true, source, count: records.length, records })
+  } catch (err) {
+    return jsonResponse(400, { success: false, error: err instanceof Error ? err.message : 'Unknown error' })
+  }
+}
+
+// Use Node.js runtime (local JSONL fallback needs node:fs)
+export const runtime = 'nodejs'
@@ -14,59 +14,109 @@
 
 import { createMcpHandler } from 'mcp-handler'
 import { z } from 'zod'
-import { createClient } from '@supabase/supabase-js'
-
-// i-View Mini HTTP endpoint (local machine)
-const IVIEW_BASE_URL = process.env.IVIEW_BASE_URL || 'http://127.0.0.1:9877'
-
-// Helper to call i-View endpoints
-async function callIView<T = unknown>(
-  endpoint: string,
-  options: { method?: string; body?: unknown } = {}
-): Promise<{ success: boolean; data?: T; error?: string }> {
-  try {
-    const { method = 'GET', body } = options
-    const url = `${IVIEW_BASE_URL}${endpoint}`
-
-    const fetchOptions: RequestInit = {
-      method,
-      headers: { 'Content-Type': 'application/json' },
-    }
-    if (body) {
-      fetchOptions.body = JSON.stringify(body)
-    }
-
-    const response = await fetch(url, fetchOptions)
-    const data = await response.json()
-
-    if (!response.ok) {
-      return { success: false, error: data.error || `HTTP ${response.status}` }
-    }
-
-    return { success: true, data }
-  } catch (err) {
-    return {
-      success: false,
-      error: err instanceof Error ? err.message : 'Failed to connect to i-View',
-    }
-  }
-}
-
-// Initialize Supabase client (still used for cloud data, not terminal commands)
-const getSupabase = () => {
-  const url = process.env.NEXT_PUBLIC_SUPABASE_URL
-  const key = process.env.SUPABASE_SERVICE_ROLE_KEY
-
-  if (!url || !key) {
-    throw new Error('Supabase credentials not configured')
-  }
-
-  return createClient(url, key)
-}
+import { checkCommandPolicy } from '@/lib/command-policy'
+import { iview } from '@/lib/iview-client'
+import { checkDevices, deviceParams } from '@/lib/devices'
+import {
+  extractLines,
+  getJob,
+  listJobs,
+  parseJobOutput,
+  recordJobOutput,
+  refreshJob,
+  submitJob,
+  untrackedReason,
+} from '@/lib/command-jobs'
+import { streamTerminalOutput, type StreamStopReason } from '@/lib/output-stream'
+import { requestDeadline } from '@/lib/request-deadline'
+import {
+  CURSOR_SCROLLBACK_LINES,
+  decodeTerminalCursor,
+  encodeTerminalCursor,
+  readScrollback,
+} from '@/lib/terminal-cursor'
+import { buildMatcher, waitForTerminalOutput } from '@/lib/terminal-wait'
+import { sanitizedJson } from '@/lib/output-sanitizer'
+import { getAgentStatus } from '@/lib/agent-status'
+import { browserFlowStep, MAX_FLOW_STEPS, runBrowserFlow } from '@/lib/browser-flow'
+import { splitSnapshot, toImageContent, type ImageContent } from '@/lib/screenshot-image'
+import {
+  dispatchReport,
+  getDispatch,
+  MAX_DISPATCH_AGENTS,
+  MAX_DISPATCH_SUBTASKS,
+  refreshDispatch,
+  startDispatch,
+  waitForDispatch,
+} from '@/lib/agent-dispatch'
+import { getSupabase } from '@/lib/supabase'
+import { auditToolCalls, queryAuditLog } from '@/lib/audit-log'
+import {
+  checkSelectColumns,
+  checkTableAccess,
+  describeTable,
+  findMaskedColumn,
+  listTables,
+  maskRows,
+} from '@/lib/supabase-tables'
+import {
+  applyFilters,
+  applyOrder,
+  checkQueryColumns,
+  decodeCursor,
+  encodeCursor,
+  filterColumns,
+  filterParams,
+  hasFilters,
+  orderParam,
+} from '@/lib/supabase-query'
+import {
+  checkMutation,
+  deleteWithSnapshot,
+  getDeletedRows,
+  markRestored,
+} from '@/lib/supabase-mutations'
+import { buildRpcCallSchema, callRpcFunction, describeRpcFunctions } from '@/lib/supabase-rpc'
+import {
+  MEMORY_TABLE,
+  cleanupExpiredMemories,
+  deleteScopedMemories,
+  expiresAtFromTtl,
+  memoryScopeParams,
+  memoryWriteError,
+  scopeColumns,
+  selectVisibleMemories,
+  upsertConflictTarget,
+} from '@/lib/agent-memory'
+import { rankMemories } from '@/lib/memory-search'
+import { voiceResponses } from '@/lib/voice-summary'
+import {
+  DATA_PATH_TYPES,
+  TOOLKIT_SECTIONS,
+  memoryResourceUri,
+  notifyResourcesChanged,
+  registerResources,
+} from '@/lib/mcp-resources'
+import { registerPrompts } from '@/lib/mcp-prompts'
+import { fetchToolkit, fetchToolkitJson, fetchToolkitSection, refreshToolkitCache, toolkitSectionPath } from '@/lib/toolkit-client'
+import {
+  filterListResponse,
+  filterListStream,
+  findForbiddenRead,
+  findForbiddenToolCall,
+  loadApiKeys,
+  matchApiKey,
+  toAuthInfo,
+} from '@/lib/api-keys'
 
 // Create MCP handler with tools
 const handler = createMcpHandler(
   (server) => {
+    // Record every tool call (must run before any tool is registered)
+    auditToolCalls(server)
+    // Spoken summaries for responseStyle "voice"; wraps inside the audit log
+    voiceResponses(server)
+
     // =========================================================================
     // Utility Tools
     // =========================================================================
@@ -100,27 +150,41 @@ const handler = createMcpHandler(
 
     server.tool(
       'supabase_query',
-      'Query data from a Supabase table. Returns matching rows.',
+      'Query data from a Supabase table. Supports AND filters, OR groups, multi-column ordering and pagination. Returns matching rows and a nextCursor when more rows exist.',
       {
         table: z.string().describe('The table name to query'),
-        select: z.string().optional().describe('Columns to select (default: *)'),
-        filter: z.object({
-          column: z.string(),
-          operator: z.enum(['eq', 'neq', 'gt', 'gte', 'lt', 'lte', 'like', 'ilike']),
-          value: z.union([z.string(), z.number(), z.boolean()])
-        }).optional().describe('Optional filter condition'),
-        limit: z.number().optional().describe('Maximum rows to return (default: 100)')
+        select: z.string().optional().describe('Comma-separated column names to select (default: *)'),
+        ...filterParams,
+        order: orderParam,
+        limit: z.number().int().min(1).max(1000).optional().describe('Maximum rows to return, 1-1000 (default: 100)'),
+        offset: z.number().int().min(0).optional().describe('Rows to skip (ignored when cursor is given)'),
+        cursor: z.string().optional().describe('nextCursor from a previous call with the same query, to fetch the next page'),
+        count: z.enum(['exact', 'planned', 'estimated']).optional().describe('Also return the total number of matching rows')
       },
-      async ({ table, select = '*', filter, limit = 100 }) => {
+      async ({ table, select = '*', filter, filters, or, order, limit = 100, offset = 0, cursor, count }) => {
         try {
-          const supabase = getSupabase()
-          let query = supabase.from(table).select(select).limit(limit)
-
-          if (filter) {
-            query = query.filter(filter.column, filter.operator, filter.value)
+          const spec = { filter, filters, or }
+          const maskedColumn = findMaskedColumn(table, [...filterColumns(spec), ...(order || []).map((o) => o.column)])
+          const accessError = checkTableAccess(table, 'select')
+            || checkQueryColumns(spec, order)
+            || (maskedColumn ? `Cannot filter or order on masked column "${maskedColumn}"` : null)
+            || await checkSelectColumns(table, select)
+          if (accessError) {
+            return {
+              content: [{ type: 'text', text: `Error: ${accessError}` }],
+              isError: true
+            }
           }
 
-          const { data, error } = await query
+          const start = cursor ? decodeCursor(cursor, table, spec, order, select) : offset
+
+          const supabase = getSupabase()
+          let query = supabase.from(table).select(select, count ? { count } : undefined)
+          query = applyFilters(query, spec)
+          query = applyOrder(query, order)
+
+          // Fetch one extra row to know whether another page exists
+          const { data, error, count: total } = await query.range(start, start + limit)
 
           if (error) {
             return {
@@ -129,10 +193,19 @@ const handler = createMcpHandler(
             }
           }
 
+          const rows = (data || []).slice(0, limit)
+          const hasMore = (data?.length || 0) > limit
+
           return {
             content: [{
               type: 'text',
-              text: JSON.stringify({ success: true, count: data?.length || 0, data })
+              text: JSON.stringify({
+                success: true,
+                count: rows.length,
+                ...(count ? { total } : {}),
+                data: maskRows(table, rows),
+                nextCursor: hasMore ? encodeCursor(start + limit, table, spec, order, select) : null
+              })
             }]
           }
         } catch (err) {
@@ -153,6 +226,14 @@ const handler = createMcpHandler(
       },
       async ({ table, data }) => {
         try {
+          const accessError = checkTableAccess(table, 'insert')
+          if (accessError) {
+            return {
+              content: [{ type: 'text', text: `Error: ${accessError}` }],
+              isError: true
+            }
+          }
+
           const supabase = getSupabase()
           const { data: result, error } = await supabase
             .from(table)
@@ -169,7 +250,7 @@ const handler = createMcpHandler(
           return {
             content: [{
               type: 'text',
-              text: JSON.stringify({ success: true, inserted: result })
+              text: JSON.stringify({ success: true, inserted: maskRows(table, result) })
             }]
           }
         } catch (err) {
@@ -183,23 +264,36 @@ const handler = createMcpHandler(
 
     server.tool(
       'supabase_update',
-      'Update records in a Supabase table.',
+      'Update records in a Supabase table. Uses the same filter grammar as supabase_query; at least one condition is required.',
       {
         table: z.string().describe('The table name'),
         data: z.record(z.any()).describe('The fields to update'),
-        filter: z.object({
-          column: z.string(),
-          operator: z.enum(['eq', 'neq', 'gt', 'gte', 'lt', 'lte']),
-          value: z.union([z.string(), z.number(), z.boolean()])
-        }).describe('Filter to identify which records to update')
+        ...filterParams,
+        dryRun: z.boolean().optional().describe('Only report how many rows would change, with a sample'),
+        confirmationToken: z.string().optional().describe('Token from a dry run or refusal, required when more rows match than the configured limit')
       },
-      async ({ table, data, filter }) => {
+      async ({ table, data, filter, filters, or, dryRun, confirmationToken }) => {
         try {
+          const spec = { filter, filters, or }
+          const maskedColumn = findMaskedColumn(table, filterColumns(spec))
+          const accessError = checkTableAccess(table, 'update')
+            || (!hasFilters(spec) ? 'At least one filter condition is required to identify which records to update' : null)
+            || checkQueryColumns(spec)
+            || (maskedColumn ? `Cannot filter on masked column "${maskedColumn}"` : null)
+          if (accessError) {
+            return {
+              content: [{ type: 'text', text: `Error: ${accessError}` }],
+              isError: true
+            }
+          }
+
+          const stopped = await checkMutation({ operation: 'update', table, spec, data, dryRun, confirmationToken })
+          if (stopped) {
+            return stopped
+          }
+
           const supabase = getSupabase()
-          const { data: result, error } = await supabase
-            .from(table)
-            .update(data)
-            .filter(filter.column, filter.operator, filter.value)
+          const { data: result, error } = await applyFilters(supabase.from(table).update(data), spec)
             .select()
 
           if (error) {
@@ -212,7 +306,7 @@ const handler = createMcpHandler(
           return {
             content: [{
               type: 'text',
-              text: JSON.stringify({ success: true, updated: result?.length || 0, data: result })
+              text: JSON.stringify({ success: true, updated: result?.length || 0, data: maskRows(table, result) })
             }]
           }
         } catch (err) {
@@ -226,22 +320,85 @@ const handler = createMcpHandler(
 
     server.tool(
       'supabase_delete',
-      'Delete records from a Supabase table.',
+      'Delete records from a Supabase table. Uses the same filter grammar as supabase_query; at least one condition is required.',
       {
         table: z.string().describe('The table name'),
-        filter: z.object({
-          column: z.string(),
-          operator: z.enum(['eq', 'neq', 'gt', 'gte', 'lt', 'lte']),
-          value: z.union([z.string(), z.number(), z.boolean()])
-        }).describe('Filter to identify which records to delete')
+        ...filterParams,
+        dryRun: z.boolean().optional().describe('Only report how many rows would be deleted, with a sample'),
+        confirmationToken: z.string().optional().describe('Token from a dry run or refusal, required when more rows match than the configured limit')
       },
-      async ({ table, filter }) => {
+      async ({ table, filter, filters, or, dryRun, confirmationToken }, extra) => {
         try {
+          const spec = { filter, filters, or }
+          const maskedColumn = findMaskedColumn(table, filterColumns(spec))
+          const accessError = checkTableAccess(table, 'delete')
+            || (!hasFilters(spec) ? 'At least one filter condition is required to identify which records to delete' : null)
+            || checkQueryColumns(spec)
+            || (maskedColumn ? `Cannot filter on masked column "${maskedColumn}"` : null)
+          if (accessError) {
+            return {
+              content: [{ type: 'text', text: `Error: ${accessError}` }],
+              isError: true
+            }
+          }
+
+          const stopped = await checkMutation({ operation: 'delete', table, spec, dryRun, confirmationToken })
+          if (stopped) {
+            return stopped
+          }
+
+          const { deleted, undoId } = await deleteWithSnapshot(table, spec, extra.authInfo?.clientId || 'anonymous')
+
+          return {
+            content: [{
+              type: 'text',
+              text: JSON.stringify({ success: true, deleted, undoId })
+            }]
+          }
+        } catch (err) {
+          return {
+            content: [{ type: 'text', text: `Error: ${err instanceof Error ? err.message : 'Unknown error'}` }],
+            isError: true
+          }
+        }
+      }
+    )
+
+    server.tool(
+      'restore_deleted_rows',
+      'Restore rows removed by supabase_delete, using the undoId it returned.',
+      {
+        undoId: z.string().describe('The undoId returned by supabase_delete')
+      },
+      async ({ undoId }) => {
+        try {
+          const snapshot = await getDeletedRows(undoId)
+
+          if (!snapshot) {
+            return {
+              content: [{ type: 'text', text: `Error: No deleted rows found for undoId ${undoId}` }],
+              isError: true
+            }
+          }
+          if (snapshot.restored_at) {
+            return {
+              content: [{ type: 'text', text: `Error: These rows were already restored at ${snapshot.restored_at}` }],
+              isError: true
+            }
+          }
+
+          const accessError = checkTableAccess(snapshot.table_name, 'insert')
+          if (accessError) {
+            return {
+              content: [{ type: 'text', text: `Error: ${accessError}` }],
+              isError: true
+            }
+          }
+
           const supabase = getSupabase()
           const { data: result, error } = await supabase
-            .from(table)
-            .delete()
-            .filter(filter.column, filter.operator, filter.value)
+            .from(snapshot.table_name)
+            .insert(snapshot.rows)
             .select()
 
           if (error) {
@@ -251,10 +408,106 @@ const handler = createMcpHandler(
             }
           }
 
+          await markRestored(snapshot)
+
+          return {
+            content: [{
+              type: 'text',
+              text: JSON.stringify({ success: true, table: snapshot.table_name, restored: result?.length || 0 })
+            }]
+          }
+        } catch (err) {
+          return {
+            content: [{ type: 'text', text: `Error: ${err instanceof Error ? err.message : 'Unknown error'}` }],
+            isError: true
+          }
+        }
+      }
+    )
+
+    // Only registered when at least one function is allowlisted
+    const rpcCallSchema = buildRpcCallSchema()
+    if (rpcCallSchema) {
+      server.tool(
+        'supabase_rpc',
+        `Call an allowlisted Postgres function with typed parameters. Available: ${describeRpcFunctions()}`,
+        {
+          call: rpcCallSchema.describe('The function to call and its parameters')
+        },
+        async ({ call }) => {
+          try {
+            const result = await callRpcFunction(call.function, call.params as Record<string, unknown>)
+
+            return {
+              content: [{ type: 'text', text: JSON.stringify(result) }],
+              ...(result.success ? {} : { isError: true })
+            }
+          } catch (err) {
+            return {
+              content: [{
+                type: 'text',
+                text: JSON.stringify({
+                  success: false,
+                  error: {
+                    function: call.function,
+                    code: 'exception',
+                    message: err instanceof Error ? err.message : 'Unknown error',
+                    details: null,
+                    hint: null
+                  }
+                })
+              }],
+              isError: true
+            }
+          }
+        }
+      )
+    }
+
+    server.tool(
+      'list_supabase_tables',
+      'List the Supabase tables this server may access, with the operations allowed on each.',
+      {},
+      async () => {
+        try {
+          const tables = await listTables()
+
           return {
             content: [{
               type: 'text',
-              text: JSON.stringify({ success: true, deleted: result?.length || 0 })
+              text: JSON.stringify({ success: true, count: tables.length, tables })
+            }]
+          }
+        } catch (err) {
+          return {
+            content: [{ type: 'text', text: `Error: ${err instanceof Error ? err.message : 'Unknown error'}` }],
+            isError: true
+          }
+        }
+      }
+    )
+
+    server.tool(
+      'describe_supabase_table',
+      'Describe a Supabase table: columns, types, nullability, primary and foreign keys. Use before querying to get column names right.',
+      {
+        table: z.string().describe('The table name to describe')
+      },
+      async ({ table }) => {
+        try {
+          const info = await describeTable(table)
+
+          if (!info) {
+            return {
+              content: [{ type: 'text', text: `Error: Table "${table}" not found or not allowed. Use list_supabase_tables to see available tables.` }],
+              isError: true
+            }
+          }
+
+          return {
+            content: [{
+              type: 'text',
+              text: JSON.stringify({ success: true, ...info })
             }]
           }
         } catch (err) {
@@ -270,39 +523,207 @@ const handler = createMcpHandler(
     // Voice-Terminal Bridge Tools (Direct i-View HTTP)
     // =========================================================================
 
+    server.tool(
+      'list_devices',
+      'List the registered machines running i-View and whether each is reachable right now. Pass a device name or tag as `device` to the terminal, agent and browser tools to target one.',
+      {},
+      async () => {
+        try {
+          const devices = await checkDevices()
+
+          return {
+            content: [{
+              type: 'text',
+              text: JSON.stringify({
+                success: true,
+                count: devices.length,
+                reachable: devices.filter((device) => device.reachable).length,
+                devices
+              })
+            }]
+          }
+        } catch (err) {
+          return {
+            content: [{ type: 'text', text: `Error: ${err instanceof Error ? err.message : 'Unknown error'}` }],
+            isError: true
+          }
+        }
+      }
+    )
+
     server.tool(
       'run_terminal_command',
-      'Execute a command in the user\'s terminal. Use this when the user asks to run shell commands, scripts, or interact with the terminal. Returns output immediately.',
+      'Execute a command in the user\'s terminal. Use this when the user asks to run shell commands, scripts, or interact with the terminal. Returns a job ID plus the output so far; fast commands come back completed with their exit code, long ones can be followed with check_command_status.',
       {
         command: z.string().describe('The terminal command to execute (e.g., "ls -la", "npm install", "git status")'),
         terminal: z.string().optional().describe('Terminal name, ID (m4-t1), or session ID. Defaults to active terminal.'),
-        wait: z.number().optional().describe('Time in ms to wait for output (default: 1500)')
+        wait: z.number().optional().describe('Time in ms to wait for output before returning (default: 1500)'),
+        track: z.boolean().optional().describe('Track completion and exit code (default: true). Input typed while the terminal is not idle at a shell prompt, multi-line commands, heredocs and background (&) commands are never tracked.'),
+        timeout: z.number().optional().describe('Seconds before a running job counts as timed out (default: 900)'),
+        stream: z.boolean().optional().describe('Stream new output as progress/log notifications until the command finishes, goes idle or hits maxDuration'),
+        idleTimeout: z.number().optional().describe('Streaming: stop after this many ms without new output (default: 10000)'),
+        maxDuration: z.number().optional().describe('Streaming: stop after this many ms (default and max: 55000)'),
+        confirmationToken: z.string().optional().describe('Token returned when a command requires confirmation. Send it back with the same command once the user confirms.'),
+        ...deviceParams
       },
-      async ({ command, terminal, wait = 1500 }) => {
+      async ({ command, terminal, wait = 1500, track, timeout, stream, idleTimeout, maxDuration, confirmationToken, device }, extra) => {
         try {
-          // Call i-View's /quick/run endpoint directly
-          const result = await callIView('/quick/run', {
-            method: 'POST',
-            body: { command, terminal, wait }
+          const deadline = requestDeadline()
+          const blocked = await checkCommandPolicy(command, [terminal], confirmationToken, device)
+          if (blocked) {
+            return blocked
+          }
+
+          let job = await submitJob({
+            command,
+            device,
+            terminal,
+            wait,
+            track,
+            timeoutSeconds: timeout,
+            caller: extra.authInfo?.clientId || 'anonymous',
+            deadline
           })
 
-          if (!result.success) {
+          if (job.status === 'failed') {
             return {
-              content: [{ type: 'text', text: `Error: ${result.error}` }],
+              content: [{ type: 'text', text: `Error: ${job.error}` }],
               isError: true
             }
           }
 
-          const data = result.data as { success: boolean; terminal: string; output: string[] }
+          let stopReason: StreamStopReason | undefined
+          if (stream && job.status === 'running') {
+            const jobId = job.id
+            const streamed = await streamTerminalOutput({
+              device: job.device,
+              terminal: job.terminal,
+              context: extra,
+              isComplete: (snapshot) => parseJobOutput(snapshot, jobId).exitCode !== null,
+              idleTimeoutMs: idleTimeout,
+              maxDurationMs: maxDuration,
+              deadline
+            })
+            stopReason = streamed.stopReason
+            job = await recordJobOutput(job, streamed.snapshot)
+          }
 
           return {
             content: [{
               type: 'text',
-              text: JSON.stringify({
+              text: sanitizedJson({
                 success: true,
-                terminal: data.terminal,
-                output: data.output,
-                message: `Command executed in terminal ${data.terminal}`
+                jobId: job.id,
+                status: job.status,
+                exitCode: job.exit_code,
+                device: job.device,
+                terminal: job.terminal,
+                output: job.output,
+                ...(stopReason ? { stopReason } : {}),
+                ...(track !== false && !job.tracked
+                  ? { untracked: `Completion is not tracked because ${untrackedReason(command)}` }
+                  : {}),
+                message: job.status === 'completed'
+                  ? `Command finished in terminal ${job.terminal}${job.exit_code !== null ? ` with exit code ${job.exit_code}` : ''}`
+                  : `Command running in terminal ${job.terminal} - check progress with check_command_status (job ${job.id})`
+              })
+            }]
+          }
+        } catch (err) {
+          return {
+            content: [{ type: 'text', text: `Error: ${err instanceof Error ? err.message : 'Unknown error'}` }],
+            isError: true
+          }
+        }
+      }
+    )
+
+    server.tool(
+      'check_command_status',
+      'Check the status of a command submitted with run_terminal_command: queued, running, completed (with exit code), timed_out or failed, plus its output.',
+      {
+        jobId: z.string().describe('Job ID returned by run_terminal_command')
+      },
+      async ({ jobId }) => {
+        try {
+          const stored = await getJob(jobId)
+
+          if (!stored) {
+            return {
+              content: [{ type: 'text', text: `Error: No command job with ID ${jobId}` }],
+              isError: true
+            }
+          }
+
+          const job = await refreshJob(stored)
+
+          return {
+            content: [{
+              type: 'text',
+              text: sanitizedJson({ success: true, job })
+            }]
+          }
+        } catch (err) {
+          return {
+            content: [{ type: 'text', text: `Error: ${err instanceof Error ? err.message : 'Unknown error'}` }],
+            isError: true
+          }
+        }
+      }
+    )
+
+    server.tool(
+      'get_pending_commands',
+      'List commands that are still queued or running.',
+      {
+        terminal: z.string().optional().describe('Only jobs in this terminal'),
+        ...deviceParams
+      },
+      async ({ terminal, device }) => {
+        try {
+          const jobs = await Promise.all(
+            (await listJobs({ active: true, terminal, device })).map((job) => refreshJob(job))
+          )
+          const pending = jobs.filter((job) => job.status === 'queued' || job.status === 'running')
+
+          return {
+            content: [{
+              type: 'text',
+              text: sanitizedJson({
+                success: true,
+                count: pending.length,
+                jobs: pending.map(({ output, ...job }) => ({ ...job, lastOutput: output.slice(-5) }))
+              })
+            }]
+          }
+        } catch (err) {
+          return {
+            content: [{ type: 'text', text: `Error: ${err instanceof Error ? err.message : 'Unknown error'}` }],
+            isError: true
+          }
+        }
+      }
+    )
+
+    server.tool(
+      'get_recent_commands',
+      'Get recently submitted commands with their status, exit code and the tail of their output.',
+      {
+        terminal: z.string().optional().describe('Only jobs in this terminal'),
+        limit: z.number().int().min(1).max(100).optional().describe('Maximum jobs to return, 1-100 (default: 10)'),
+        ...deviceParams
+      },
+      async ({ terminal, limit = 10, device }) => {
+        try {
+          const jobs = await listJobs({ terminal, device, limit })
+
+          return {
+            content: [{
+              type: 'text',
+              text: sanitizedJson({
+                success: true,
+                count: jobs.length,
+                jobs: jobs.map(({ output, ...job }) => ({ ...job, lastOutput: output.slice(-5) }))
               })
             }]
           }
@@ -317,14 +738,33 @@ const handler = createMcpHandler(
 
     server.tool(
       'get_terminal_output',
-      'Get output from a terminal. Use to see what a command produced or check terminal state.',
+      'Get output from a terminal. Every response includes a cursor: pass it back as `since` to get only the lines produced after that read. Use from "last_command" to start at the most recent command. With stream, keeps sending new output as notifications until the terminal goes idle or maxDuration passes.',
       {
-        terminal: z.string().optional().describe('Terminal name, ID, or session ID. Defaults to active terminal.'),
-        lines: z.number().optional().describe('Number of lines to return (default: 30)')
+        terminal: z.string().optional().describe('Terminal name, ID, or session ID. Defaults to active terminal (or the cursor\'s terminal).'),
+        lines: z.number().int().min(1).max(500).optional().describe('Number of lines to return when reading the tail, 1-500 (default: 30)'),
+        since: z.string().optional().describe('Cursor from a previous get_terminal_output - return only newer lines'),
+        from: z.enum(['tail', 'last_command']).optional().describe('Where to start without a cursor: the last `lines` lines (default) or the last command entered'),
+        stream: z.boolean().optional().describe('Keep streaming new output as progress/log notifications'),
+        idleTimeout: z.number().optional().describe('Streaming: stop after this many ms without new output (default: 10000)'),
+        maxDuration: z.number().optional().describe('Streaming: stop after this many ms (default and max: 55000)'),
+        ...deviceParams
       },
-      async ({ terminal, lines = 30 }) => {
+      async ({ terminal, lines = 30, since, from = 'tail', stream, idleTimeout, maxDuration, device }, extra) => {
         try {
-          const result = await callIView(`/terminal/output?lines=${lines}${terminal ? `&terminal=${terminal}` : ''}`)
+          const deadline = requestDeadline()
+          const cursor = since ? decodeTerminalCursor(since) : undefined
+          if (cursor && ((terminal && cursor.terminal && terminal !== cursor.terminal) || (device && cursor.device && device !== cursor.device))) {
+            return {
+              content: [{ type: 'text', text: 'Error: Cursor belongs to a different terminal - omit terminal/device or use the ones it was issued for' }],
+              isError: true
+            }
+          }
+          const targetDevice = device || cursor?.device || undefined
+          const targetTerminal = terminal || cursor?.terminal || undefined
+
+          // Cursor and last-command reads need the full window to search in
+          const windowSize = cursor || from === 'last_command' || stream ? CURSOR_SCROLLBACK_LINES : lines + 1
+          const result = await iview.terminalOutput({ lines: windowSize, terminal: targetTerminal }, { device: targetDevice, deadline })
 
           if (!result.success) {
             return {
@@ -333,10 +773,122 @@ const handler = createMcpHandler(
             }
           }
 
+          const scrollback = extractLines(result.data)
+          // Pin the cursor to the terminal i-View actually read, not "whichever is active"
+          const resolvedTerminal = result.data?.terminal || targetTerminal || null
+          const read = readScrollback(scrollback, {
+            device: targetDevice || null,
+            terminal: resolvedTerminal,
+            since: cursor,
+            from,
+            limit: lines
+          })
+
+          if (!stream) {
+            return {
+              content: [{
+                type: 'text',
+                text: sanitizedJson({
+                  success: true,
+                  device: targetDevice ?? null,
+                  terminal: resolvedTerminal,
+                  output: read.lines,
+                  partialLine: read.partialLine,
+                  cursor: read.cursor,
+                  ...(read.gap ? { gap: true, message: 'Some output scrolled past before this read - returning the whole window' } : {})
+                })
+              }]
+            }
+          }
+
+          const streamed = await streamTerminalOutput({
+            device: targetDevice,
+            terminal: resolvedTerminal,
+            context: extra,
+            baseline: scrollback,
+            idleTimeoutMs: idleTimeout,
+            maxDurationMs: maxDuration,
+            deadline
+          })
+
           return {
             content: [{
               type: 'text',
-              text: JSON.stringify(result.data)
+              text: sanitizedJson({
+                success: true,
+                device: targetDevice ?? null,
+                terminal: resolvedTerminal,
+                output: [...read.lines, ...(read.partialLine !== null ? [read.partialLine] : []), ...streamed.lines],
+                newLines: streamed.lines.length,
+                cursor: encodeTerminalCursor(streamed.snapshot, targetDevice || null, resolvedTerminal),
+                ...(read.gap ? { gap: true } : {}),
+                stopReason: streamed.stopReason,
+                durationMs: streamed.durationMs
+              })
+            }]
+          }
+        } catch (err) {
+          return {
+            content: [{ type: 'text', text: `Error: ${err instanceof Error ? err.message : 'Unknown error'}` }],
+            isError: true
+          }
+        }
+      }
+    )
+
+    server.tool(
+      'wait_for_terminal_output',
+      'Wait until new terminal output matches a pattern (e.g. "ready on", "Tests:"), until the terminal\'s state changes (e.g. working to waiting), or until the timeout. Returns the matching line with surrounding context, the elapsed time and a cursor for get_terminal_output.',
+      {
+        terminal: z.string().optional().describe('Terminal name, ID, or session ID. Defaults to active terminal (or the cursor\'s terminal).'),
+        pattern: z.string().optional().describe('Text to wait for in new output (max 200 characters)'),
+        regex: z.boolean().optional().describe('Treat pattern as a regular expression (default: literal text). Nested quantifiers such as (a+)+ are rejected.'),
+        ignoreCase: z.boolean().optional().describe('Case-insensitive match'),
+        untilStateChange: z.boolean().optional().describe('Also stop when the terminal state from list_terminals changes'),
+        untilState: z.string().optional().describe('Stop when the terminal reaches this state, e.g. "waiting"'),
+        since: z.string().optional().describe('Cursor from get_terminal_output - also check output produced after it'),
+        contextLines: z.number().optional().describe('Lines of context around the match (default: 3)'),
+        timeout: z.number().optional().describe('Give up after this many ms (default: 30000, max: 55000)'),
+        ...deviceParams
+      },
+      async ({ terminal, pattern, regex, ignoreCase, untilStateChange, untilState, since, contextLines, timeout, device }, extra) => {
+        try {
+          if (!pattern && !untilStateChange && !untilState) {
+            return {
+              content: [{ type: 'text', text: 'Error: Provide a pattern, untilStateChange or untilState' }],
+              isError: true
+            }
+          }
+          const cursor = since ? decodeTerminalCursor(since) : undefined
+          if (cursor && ((terminal && cursor.terminal && terminal !== cursor.terminal) || (device && cursor.device && device !== cursor.device))) {
+            return {
+              content: [{ type: 'text', text: 'Error: Cursor belongs to a different terminal - omit terminal/device or use the ones it was issued for' }],
+              isError: true
+            }
+          }
+          const targetDevice = device || cursor?.device || undefined
+
+          const result = await waitForTerminalOutput({
+            device: targetDevice,
+            terminal: terminal || cursor?.terminal || undefined,
+            matcher: pattern ? buildMatcher(pattern, { regex, ignoreCase }) : undefined,
+            untilState: untilState || (untilStateChange ? true : undefined),
+            since: cursor,
+            timeoutMs: timeout,
+            contextLines,
+            signal: extra.signal,
+            deadline: requestDeadline()
+          })
+
+          return {
+            content: [{
+              type: 'text',
+              text: sanitizedJson({
+                success: true,
+                device: targetDevice ?? null,
+                ...result,
+                ...(result.reason === 'timeout' ? { message: `Nothing matched within ${Math.round(result.elapsedMs / 1000)}s` } : {})
+              })
             }]
           }
         } catch (err) {
@@ -351,10 +903,12 @@ const handler = createMcpHandler(
     server.tool(
       'get_system_health',
       'Get system health status including device info, terminals, browser state.',
-      {},
-      async () => {
+      {
+        ...deviceParams
+      },
+      async ({ device }) => {
         try {
-          const result = await callIView('/quick/health')
+          const result = await iview.health({ device })
 
           if (!result.success) {
             return {
@@ -381,10 +935,14 @@ const handler = createMcpHandler(
     server.tool(
       'get_snapshot',
       'Get a snapshot of the current state: screenshot + console logs + terminal state. Very useful for understanding what\'s happening.',
-      {},
-      async () => {
+      {
+        maxWidth: z.number().int().positive().optional().describe('Downscale the screenshot to at most this many pixels wide'),
+        maxBytes: z.number().int().positive().optional().describe('Re-encode the screenshot until it is at most this many bytes'),
+        ...deviceParams
+      },
+      async ({ maxWidth, maxBytes, device }) => {
         try {
-          const result = await callIView('/quick/snapshot')
+          const result = await iview.snapshot({ device })
 
           if (!result.success) {
             return {
@@ -393,11 +951,19 @@ const handler = createMcpHandler(
             }
           }
 
+          const { screenshot, rest } = splitSnapshot(result.data)
+          const { image, meta } = screenshot
+            ? await toImageContent(screenshot, { maxWidth, maxBytes, device })
+            : { image: null, meta: null }
+
           return {
-            content: [{
-              type: 'text',
-              text: JSON.stringify(result.data)
-            }]
+            content: [
+              {
+                type: 'text',
+                text: sanitizedJson(screenshot && rest && typeof rest === 'object' ? { ...rest, screenshot: meta } : rest)
+              },
+              ...(image ? [image] : [])
+            ]
           }
         } catch (err) {
           return {
@@ -413,14 +979,18 @@ const handler = createMcpHandler(
       'Send the same command to multiple terminals at once.',
       {
         command: z.string().describe('Command to broadcast'),
-        terminals: z.array(z.string()).optional().describe('Array of terminal names/IDs. If empty, sends to all.')
+        terminals: z.array(z.string()).optional().describe('Array of terminal names/IDs. If empty, sends to all.'),
+        confirmationToken: z.string().optional().describe('Token returned when a command requires confirmation. Send it back with the same command once the user confirms.'),
+        ...deviceParams
       },
-      async ({ command, terminals }) => {
+      async ({ command, terminals, confirmationToken, device }) => {
         try {
-          const result = await callIView('/quick/broadcast', {
-            method: 'POST',
-            body: { command, terminals }
-          })
+          const blocked = await checkCommandPolicy(command, terminals || [], confirmationToken, device)
+          if (blocked) {
+            return blocked
+          }
+
+          const result = await iview.broadcast({ command, terminals }, { device })
 
           if (!result.success) {
             return {
@@ -454,15 +1024,13 @@ const handler = createMcpHandler(
       {
         name: z.string().describe('Friendly name for the session (e.g., "Backend Agent", "Build Server")'),
         workingDirectory: z.string().optional().describe('Starting directory for the terminal'),
-        spawnAgent: z.boolean().optional().describe('Whether to spawn a Claude mini agent in this terminal')
+        spawnAgent: z.boolean().optional().describe('Whether to spawn a Claude mini agent in this terminal'),
+        ...deviceParams
       },
-      async ({ name, workingDirectory, spawnAgent }) => {
+      async ({ name, workingDirectory, spawnAgent, device }) => {
         try {
           // Call i-View's /quick/session endpoint directly
-          const result = await callIView('/quick/session', {
-            method: 'POST',
-            body: { name, workingDirectory, spawnAgent }
-          })
+          const result = await iview.createSession({ name, workingDirectory, spawnAgent }, { device })
 
           if (!result.success) {
             return {
@@ -471,6 +1039,8 @@ const handler = createMcpHandler(
             }
           }
 
+          await notifyResourcesChanged(server)
+
           return {
             content: [{
               type: 'text',
@@ -493,10 +1063,12 @@ const handler = createMcpHandler(
     server.tool(
       'list_terminals',
       'List all active terminals with their state (sleeping, working, waiting, error).',
-      {},
-      async () => {
+      {
+        ...deviceParams
+      },
+      async ({ device }) => {
         try {
-          const result = await callIView('/quick/terminals')
+          const result = await iview.listTerminals({ device })
 
           if (!result.success) {
             return {
@@ -523,10 +1095,131 @@ const handler = createMcpHandler(
     server.tool(
       'list_sessions',
       'List all sessions with neuropacket counts and memory status.',
-      {},
-      async () => {
+      {
+        ...deviceParams
+      },
+      async ({ device }) => {
+        try {
+          const result = await iview.listSessions({ device })
+
+          if (!result.success) {
+            return {
+              content: [{ type: 'text', text: `Error: ${result.error}` }],
+              isError: true
+            }
+          }
+
+          return {
+            content: [{
+              type: 'text',
+              text: JSON.stringify(result.data)
+            }]
+          }
+        } catch (err) {
+          return {
+            content: [{ type: 'text', text: `Error: ${err instanceof Error ? err.message : 'Unknown error'}` }],
+            isError: true
+          }
+        }
+      }
+    )
+
+    server.tool(
+      'delete_session',
+      'Delete a session by name or ID.',
+      {
+        name: z.string().optional().describe('Session name to delete'),
+        sessionId: z.string().optional().describe('Session ID to delete'),
+        ...deviceParams
+      },
+      async ({ name, sessionId, device }) => {
+        try {
+          const result = await iview.deleteSession({ name, id: sessionId }, { device })
+
+          if (!result.success) {
+            return {
+              content: [{ type: 'text', text: `Error: ${result.error}` }],
+              isError: true
+            }
+          }
+
+          await notifyResourcesChanged(server)
+
+          return {
+            content: [{
+              type: 'text',
+              text: JSON.stringify(result.data)
+            }]
+          }
+        } catch (err) {
+          return {
+            content: [{ type: 'text', text: `Error: ${err instanceof Error ? err.message : 'Unknown error'}` }],
+            isError: true
+          }
+        }
+      }
+    )
+
+    server.tool(
+      'get_session_memory',
+      'Get compiled session memory (SESSION_MEMORY.md) for a terminal.',
+      {
+        terminal: z.string().optional().describe('Terminal name, ID, or session ID'),
+        ...deviceParams
+      },
+      async ({ terminal, device }) => {
+        try {
+          const result = await iview.sessionMemory({ terminal }, { device })
+
+          if (!result.success) {
+            return {
+              content: [{ type: 'text', text: `Error: ${result.error}` }],
+              isError: true
+            }
+          }
+
+          return {
+            content: [{
+              type: 'text',
+              text: JSON.stringify(result.data)
+            }]
+          }
+        } catch (err) {
+          return {
+            content: [{ type: 'text', text: `Error: ${err instanceof Error ? err.message : 'Unknown error'}` }],
+            isError: true
+          }
+        }
+      }
+    )
+
+    // =========================================================================
+    // Claude Code Agent Tools (Direct i-View HTTP)
+    // =========================================================================
+
+    server.tool(
+      'spawn_claude_mini',
+      'Spawn a Claude mini agent (--dangerously-skip-permissions) in a terminal. Instant and ready for commands.',
+      {
+        terminal: z.string().optional().describe('Terminal name, ID, or session ID. Uses active terminal if not specified.'),
+        cwd: z.string().optional().describe('Working directory to start in'),
+        firstMessage: z.string().optional().describe('Initial message to send to Claude after startup'),
+        waitForReady: z.number().optional().describe('Time in ms to wait for Claude to be ready (default: 3000)'),
+        confirmationToken: z.string().optional().describe('Token returned when a message requires confirmation. Send it back with the same message once the user confirms.'),
+        ...deviceParams
+      },
+      async ({ terminal, cwd, firstMessage, waitForReady, confirmationToken, device }) => {
         try {
-          const result = await callIView('/quick/sessions')
+          const blocked = firstMessage ? await checkCommandPolicy(firstMessage, [terminal], confirmationToken, device) : null
+          if (blocked) {
+            return blocked
+          }
+
+          // Call i-View's /quick/mini endpoint directly
+          const result = await iview.spawnMini(
+            { terminal, cwd, firstMessage, waitForReady },
+            { device, timeoutMs: (waitForReady ?? 3000) + 10_000 }
+          )
 
           if (!result.success) {
             return {
@@ -538,7 +1231,11 @@ const handler = createMcpHandler(
           return {
             content: [{
               type: 'text',
-              text: JSON.stringify(result.data)
+              text: JSON.stringify({
+                success: true,
+                ...(result.data && typeof result.data === 'object' ? result.data : {}),
+                message: 'Claude mini spawned and ready'
+              })
             }]
           }
         } catch (err) {
@@ -551,21 +1248,24 @@ const handler = createMcpHandler(
     )
 
     server.tool(
-      'delete_session',
-      'Delete a session by name or ID.',
+      'send_to_agent',
+      'Send a message to a running Claude agent. Supports different modes: prompt (existing Claude), mini (spawn mini), claude (spawn standard).',
       {
-        name: z.string().optional().describe('Session name to delete'),
-        sessionId: z.string().optional().describe('Session ID to delete')
+        message: z.string().describe('Message to send to Claude'),
+        terminal: z.string().optional().describe('Terminal name, ID, or session ID'),
+        mode: z.enum(['prompt', 'mini', 'claude']).optional().describe('Mode: prompt (existing), mini (spawn mini), claude (spawn standard). Default: prompt'),
+        confirmationToken: z.string().optional().describe('Token returned when a message requires confirmation. Send it back with the same message once the user confirms.'),
+        ...deviceParams
       },
-      async ({ name, sessionId }) => {
+      async ({ message, terminal, mode = 'prompt', confirmationToken, device }) => {
         try {
-          const params = new URLSearchParams()
-          if (name) params.set('name', name)
-          if (sessionId) params.set('id', sessionId)
+          const blocked = await checkCommandPolicy(message, [terminal], confirmationToken, device)
+          if (blocked) {
+            return blocked
+          }
 
-          const result = await callIView(`/quick/session?${params.toString()}`, {
-            method: 'DELETE'
-          })
+          // Call i-View's /quick/agent endpoint directly
+          const result = await iview.sendToAgent({ message, terminal, mode }, { device })
 
           if (!result.success) {
             return {
@@ -577,7 +1277,11 @@ const handler = createMcpHandler(
           return {
             content: [{
               type: 'text',
-              text: JSON.stringify(result.data)
+              text: JSON.stringify({
+                success: true,
+                ...(result.data && typeof result.data === 'object' ? result.data : {}),
+                message: `Message sent to Claude agent`
+              })
             }]
           }
         } catch (err) {
@@ -590,14 +1294,14 @@ const handler = createMcpHandler(
     )
 
     server.tool(
-      'get_session_memory',
-      'Get compiled session memory (SESSION_MEMORY.md) for a terminal.',
+      'list_agents',
+      'List all Claude agents across terminals with their current state.',
       {
-        terminal: z.string().optional().describe('Terminal name, ID, or session ID')
+        ...deviceParams
       },
-      async ({ terminal }) => {
+      async ({ device }) => {
         try {
-          const result = await callIView(`/quick/memory${terminal ? `?terminal=${terminal}` : ''}`)
+          const result = await iview.listAgents({ device })
 
           if (!result.success) {
             return {
@@ -621,41 +1325,34 @@ const handler = createMcpHandler(
       }
     )
 
-    // =========================================================================
-    // Claude Code Agent Tools (Direct i-View HTTP)
-    // =========================================================================
-
     server.tool(
-      'spawn_claude_mini',
-      'Spawn a Claude mini agent (--dangerously-skip-permissions) in a terminal. Instant and ready for commands.',
+      'get_claude_agent_status',
+      'Get one Claude agent\'s state, how long it has been in that state, any permission prompt it is waiting on, and its last complete reply (without the prompt box or tool output). With waitUntilIdle, waits for the agent to finish first - use it to read back what Claude answered.',
       {
-        terminal: z.string().optional().describe('Terminal name, ID, or session ID. Uses active terminal if not specified.'),
-        cwd: z.string().optional().describe('Working directory to start in'),
-        firstMessage: z.string().optional().describe('Initial message to send to Claude after startup'),
-        waitForReady: z.number().optional().describe('Time in ms to wait for Claude to be ready (default: 3000)')
+        terminal: z.string().optional().describe('Terminal name, ID, or session ID of the agent. Optional when only one agent is running.'),
+        waitUntilIdle: z.boolean().optional().describe('Wait until the agent stops working, asks for permission, or errors or exits'),
+        timeout: z.number().optional().describe('Give up waiting after this many ms (default: 30000, max: 55000)'),
+        ...deviceParams
       },
-      async ({ terminal, cwd, firstMessage, waitForReady }) => {
+      async ({ terminal, waitUntilIdle, timeout, device }, extra) => {
         try {
-          // Call i-View's /quick/mini endpoint directly
-          const result = await callIView('/quick/mini', {
-            method: 'POST',
-            body: { terminal, cwd, firstMessage, waitForReady }
+          const { status, waited } = await getAgentStatus({
+            device,
+            terminal,
+            waitUntilIdle,
+            timeoutMs: timeout,
+            signal: extra.signal,
+            deadline: requestDeadline()
           })
 
-          if (!result.success) {
-            return {
-              content: [{ type: 'text', text: `Error: ${result.error}` }],
-              isError: true
-            }
-          }
-
           return {
             content: [{
               type: 'text',
-              text: JSON.stringify({
+              text: sanitizedJson({
                 success: true,
-                ...(result.data && typeof result.data === 'object' ? result.data : {}),
-                message: 'Claude mini spawned and ready'
+                device: device ?? null,
+                ...status,
+                ...(waited ? { waited } : {})
               })
             }]
           }
@@ -669,35 +1366,51 @@ const handler = createMcpHandler(
     )
 
     server.tool(
-      'send_to_agent',
-      'Send a message to a running Claude agent. Supports different modes: prompt (existing Claude), mini (spawn mini), claude (spawn standard).',
+      'dispatch_subtasks',
+      'Run several subtasks in parallel across Claude agents: each goes to an idle agent, or to a Claude mini spawned in a new session when none is free. Returns a dispatch ID and a combined report; follow it with check_dispatch_status until every subtask is done or the deadline passes.',
       {
-        message: z.string().describe('Message to send to Claude'),
-        terminal: z.string().optional().describe('Terminal name, ID, or session ID'),
-        mode: z.enum(['prompt', 'mini', 'claude']).optional().describe('Mode: prompt (existing), mini (spawn mini), claude (spawn standard). Default: prompt')
+        tasks: z.array(z.object({
+          task: z.string().describe('Instructions for the agent'),
+          label: z.string().optional().describe('Short name for the report, e.g. the package name'),
+          cwd: z.string().optional().describe('Working directory for a spawned mini')
+        })).min(1).max(MAX_DISPATCH_SUBTASKS).describe('Subtasks to distribute'),
+        cwd: z.string().optional().describe('Default working directory for spawned minis'),
+        maxAgents: z.number().optional().describe(`Subtasks running at once (default: one per subtask, max ${MAX_DISPATCH_AGENTS})`),
+        spawn: z.boolean().optional().describe('Spawn minis when no agent is idle (default: true). When false, extra subtasks wait for an idle agent.'),
+        deadline: z.number().optional().describe('Seconds before unfinished subtasks count as timed out (default: 1800)'),
+        wait: z.number().optional().describe('Time in ms to wait for subtasks to finish before returning (default: 0, max: 55000)'),
+        confirmationToken: z.string().optional().describe('Token returned when a subtask requires confirmation. Send it back with the same tasks once the user confirms.'),
+        ...deviceParams
       },
-      async ({ message, terminal, mode = 'prompt' }) => {
+      async ({ tasks, cwd, maxAgents, spawn, deadline, wait = 0, confirmationToken, device }, extra) => {
         try {
-          // Call i-View's /quick/agent endpoint directly
-          const result = await callIView('/quick/agent', {
-            method: 'POST',
-            body: { message, terminal, mode }
+          const callDeadline = requestDeadline()
+          // One check over every task (one per line), so one token confirms them all
+          const blocked = await checkCommandPolicy(tasks.map((subtask) => subtask.task).join('\n'), [undefined], confirmationToken, device)
+          if (blocked) {
+            return blocked
+          }
+          let dispatch = await startDispatch({
+            tasks,
+            device,
+            cwd,
+            maxAgents,
+            spawn,
+            deadlineSeconds: deadline,
+            caller: extra.authInfo?.clientId || 'anonymous',
+            callDeadline
           })
-
-          if (!result.success) {
-            return {
-              content: [{ type: 'text', text: `Error: ${result.error}` }],
-              isError: true
-            }
-          }
+          dispatch = await waitForDispatch(dispatch, wait, extra.signal, callDeadline)
 
           return {
             content: [{
               type: 'text',
-              text: JSON.stringify({
+              text: sanitizedJson({
                 success: true,
-                ...(result.data && typeof result.data === 'object' ? result.data : {}),
-                message: `Message sent to Claude agent`
+                ...dispatchReport(dispatch),
+                message: dispatch.status === 'running'
+                  ? `Dispatched ${tasks.length} subtasks - check progress with check_dispatch_status (dispatch ${dispatch.id})`
+                  : `All ${tasks.length} subtasks finished`
               })
             }]
           }
@@ -711,24 +1424,31 @@ const handler = createMcpHandler(
     )
 
     server.tool(
-      'list_agents',
-      'List all Claude agents across terminals with their current state.',
-      {},
-      async () => {
+      'check_dispatch_status',
+      'Check a dispatch started with dispatch_subtasks: the state of each subtask (pending, sent, working, done, failed, timed_out) and the tail of its agent\'s output once finished.',
+      {
+        dispatchId: z.string().describe('Dispatch ID returned by dispatch_subtasks'),
+        wait: z.number().optional().describe('Time in ms to wait for the dispatch to finish before returning (default: 0, max: 55000)')
+      },
+      async ({ dispatchId, wait = 0 }, extra) => {
         try {
-          const result = await callIView('/quick/agents')
+          const callDeadline = requestDeadline()
+          const stored = await getDispatch(dispatchId)
 
-          if (!result.success) {
+          if (!stored) {
             return {
-              content: [{ type: 'text', text: `Error: ${result.error}` }],
+              content: [{ type: 'text', text: `Error: No dispatch with ID ${dispatchId}` }],
               isError: true
             }
           }
 
+          let dispatch = await refreshDispatch(stored, callDeadline)
+          dispatch = await waitForDispatch(dispatch, wait, extra.signal, callDeadline)
+
           return {
             content: [{
               type: 'text',
-              text: JSON.stringify(result.data)
+              text: sanitizedJson({ success: true, ...dispatchReport(dispatch) })
             }]
           }
         } catch (err) {
@@ -748,14 +1468,12 @@ const handler = createMcpHandler(
       'navigate_browser',
       'Navigate the browser to a URL.',
       {
-        url: z.string().describe('URL to navigate to')
+        url: z.string().describe('URL to navigate to'),
+        ...deviceParams
       },
-      async ({ url }) => {
+      async ({ url, device }) => {
         try {
-          const result = await callIView('/navigate', {
-            method: 'POST',
-            body: { url }
-          })
+          const result = await iview.navigate({ url }, { device })
 
           if (!result.success) {
             return {
@@ -788,14 +1506,12 @@ const handler = createMcpHandler(
       'Click an element in the browser by selector or text.',
       {
         selector: z.string().optional().describe('CSS selector to click'),
-        text: z.string().optional().describe('Text content to find and click')
+        text: z.string().optional().describe('Text content to find and click'),
+        ...deviceParams
       },
-      async ({ selector, text }) => {
+      async ({ selector, text, device }) => {
         try {
-          const result = await callIView('/webview/click', {
-            method: 'POST',
-            body: { selector, text }
-          })
+          const result = await iview.click({ selector, text }, { device })
 
           if (!result.success) {
             return {
@@ -824,14 +1540,12 @@ const handler = createMcpHandler(
       'Fill an input field in the browser.',
       {
         selector: z.string().describe('CSS selector for the input'),
-        value: z.string().describe('Value to fill')
+        value: z.string().describe('Value to fill'),
+        ...deviceParams
       },
-      async ({ selector, value }) => {
+      async ({ selector, value, device }) => {
         try {
-          const result = await callIView('/webview/fill', {
-            method: 'POST',
-            body: { selector, value }
-          })
+          const result = await iview.fill({ selector, value }, { device })
 
           if (!result.success) {
             return {
@@ -857,13 +1571,17 @@ const handler = createMcpHandler(
 
     server.tool(
       'take_screenshot',
-      'Take a screenshot of the current browser view. Returns base64 encoded image.',
+      'Take a screenshot of the current browser view. Returns it as an image, with URL, viewport and size in a separate text part. Can crop to an element and shrink the image server-side.',
       {
-        preset: z.enum(['fast', 'balanced', 'thumbnail', 'quality']).optional().describe('Screenshot preset (default: fast)')
+        preset: z.enum(['fast', 'balanced', 'thumbnail', 'quality']).optional().describe('Screenshot preset (default: fast)'),
+        selector: z.string().optional().describe('Crop to this element\'s bounding box'),
+        maxWidth: z.number().int().positive().optional().describe('Downscale to at most this many pixels wide'),
+        maxBytes: z.number().int().positive().optional().describe('Re-encode (JPEG, then smaller) until the image is at most this many bytes'),
+        ...deviceParams
       },
-      async ({ preset = 'fast' }) => {
+      async ({ preset = 'fast', selector, maxWidth, maxBytes, device }) => {
         try {
-          const result = await callIView(`/screenshot/webview?preset=${preset}`)
+          const result = await iview.screenshot({ preset }, { device })
 
           if (!result.success) {
             return {
@@ -872,11 +1590,19 @@ const handler = createMcpHandler(
             }
           }
 
+          const { image, meta } = await toImageContent(result.data, { preset, selector, maxWidth, maxBytes, device })
+          if (!image) {
+            return {
+              content: [{ type: 'text', text: `Error: ${meta.error}` }],
+              isError: true
+            }
+          }
+
           return {
-            content: [{
-              type: 'text',
-              text: JSON.stringify(result.data)
-            }]
+            content: [
+              { type: 'text', text: JSON.stringify({ success: true, ...meta }) },
+              image
+            ]
           }
         } catch (err) {
           return {
@@ -891,11 +1617,12 @@ const handler = createMcpHandler(
       'get_console_logs',
       'Get console logs from the browser.',
       {
-        level: z.enum(['all', 'error', 'warn', 'log']).optional().describe('Filter by log level')
+        level: z.enum(['all', 'error', 'warn', 'log']).optional().describe('Filter by log level'),
+        ...deviceParams
       },
-      async ({ level = 'all' }) => {
+      async ({ level = 'all', device }) => {
         try {
-          const result = await callIView(`/webview/console${level !== 'all' ? `?level=${level}` : ''}`)
+          const result = await iview.consoleLogs({ level: level === 'all' ? undefined : level }, { device })
 
           if (!result.success) {
             return {
@@ -907,7 +1634,7 @@ const handler = createMcpHandler(
           return {
             content: [{
               type: 'text',
-              text: JSON.stringify(result.data)
+              text: sanitizedJson(result.data)
             }]
           }
         } catch (err) {
@@ -924,14 +1651,12 @@ const handler = createMcpHandler(
       'Query elements in the browser by selector.',
       {
         selector: z.string().describe('CSS selector to query'),
-        limit: z.number().optional().describe('Maximum elements to return')
+        limit: z.number().int().min(1).max(500).optional().describe('Maximum elements to return, 1-500'),
+        ...deviceParams
       },
-      async ({ selector, limit }) => {
+      async ({ selector, limit, device }) => {
         try {
-          const params = new URLSearchParams({ selector })
-          if (limit) params.set('limit', limit.toString())
-
-          const result = await callIView(`/webview/elements?${params.toString()}`)
+          const result = await iview.elements({ selector, limit }, { device })
 
           if (!result.success) {
             return {
@@ -955,42 +1680,95 @@ const handler = createMcpHandler(
       }
     )
 
+    server.tool(
+      'run_browser_flow',
+      'Run several browser steps in one call: navigate, click, fill, wait_for a selector, assert_text, assert_count and screenshot. Stops at the first failing step and returns per-step results with timings plus console errors logged during the flow.',
+      {
+        steps: z.array(browserFlowStep).min(1).max(MAX_FLOW_STEPS).describe('Steps to run in order, e.g. [{"action":"navigate","url":"..."},{"action":"fill","selector":"#email","value":"..."},{"action":"click","text":"Sign in"},{"action":"wait_for","selector":".dashboard"}]'),
+        ...deviceParams
+      },
+      async ({ steps, device }, extra) => {
+        try {
+          const result = await runBrowserFlow({ steps, device, signal: extra.signal, deadline: requestDeadline() })
+
+          // Screenshot steps become image parts; the step keeps the metadata and its part's index
+          const images: ImageContent[] = []
+          for (const step of result.steps) {
+            if (step.action !== 'screenshot' || step.status !== 'passed') continue
+            const { image, meta } = await toImageContent(step.data)
+            step.data = image ? { ...meta, contentIndex: images.push(image) } : meta
+          }
+
+          return {
+            content: [
+              {
+                type: 'text',
+                text: sanitizedJson({
+                  ...result,
+                  message: result.success
+                    ? `All ${steps.length} steps passed`
+                    : `Step ${(result.failedStep ?? 0) + 1} failed: ${result.steps[result.failedStep ?? 0].error}`
+                })
+              },
+              ...images
+            ]
+          }
+        } catch (err) {
+          return {
+            content: [{ type: 'text', text: `Error: ${err instanceof Error ? err.message : 'Unknown error'}` }],
+            isError: true
+          }
+        }
+      }
+    )
+
     // =========================================================================
     // Memory/Context Tools (for voice agent state)
     // =========================================================================
 
+    // Most recent memories considered by search_memory (ranked locally)
+    const MEMORY_SEARCH_CANDIDATES = 1000
+
     server.tool(
       'store_memory',
-      'Store a piece of information for later retrieval during the conversation.',
+      'Store a piece of information for later retrieval. Scope it to an agent, conversation and/or user so it only shows up there, and set ttlSeconds for scratch notes.',
       {
         key: z.string().describe('A unique key to identify this memory'),
         value: z.string().describe('The information to store'),
-        category: z.string().optional().describe('Optional category for organization')
+        category: z.string().optional().describe('Optional category for organization'),
+        ...memoryScopeParams,
+        ttlSeconds: z.number().optional().describe('Forget this memory automatically after this many seconds')
       },
-      async ({ key, value, category }) => {
+      async ({ key, value, category, agentId, conversationId, userId, ttlSeconds }) => {
         try {
           const supabase = getSupabase()
+          await cleanupExpiredMemories()
 
+          const expiresAt = expiresAtFromTtl(ttlSeconds)
           const { error } = await supabase
-            .from('agent_memory')
+            .from(MEMORY_TABLE)
             .upsert({
               key,
               value,
               category: category || 'general',
+              ...scopeColumns({ agentId, conversationId, userId }),
+              expires_at: expiresAt,
               updated_at: new Date().toISOString()
-            }, { onConflict: 'key' })
+            }, { onConflict: upsertConflictTarget() })
 
           if (error) {
             return {
-              content: [{ type: 'text', text: `Error storing memory: ${error.message}` }],
+              content: [{ type: 'text', text: `Error storing memory: ${memoryWriteError(error)}` }],
               isError: true
             }
           }
 
+          await notifyResourcesChanged(server, [memoryResourceUri(key, { agentId, conversationId, userId })])
+
           return {
             content: [{
               type: 'text',
-              text: JSON.stringify({ success: true, stored: key })
+              text: JSON.stringify({ success: true, stored: key, expiresAt })
             }]
           }
         } catch (err) {
@@ -1004,16 +1782,20 @@ const handler = createMcpHandler(
 
     server.tool(
       'recall_memory',
-      'Retrieve previously stored information.',
+      'Retrieve previously stored information. Returns memories from the given scope plus shared ones above it (agent-wide, global), newest first.',
       {
         key: z.string().optional().describe('Specific key to recall'),
-        category: z.string().optional().describe('Category to filter by')
+        category: z.string().optional().describe('Category to filter by'),
+        ...memoryScopeParams,
+        limit: z.number().optional().describe('Maximum memories to return (default: 20, max: 100)'),
+        offset: z.number().optional().describe('Memories to skip - pass nextOffset from the previous call')
       },
-      async ({ key, category }) => {
+      async ({ key, category, agentId, conversationId, userId, limit = 20, offset = 0 }) => {
         try {
-          const supabase = getSupabase()
+          await cleanupExpiredMemories()
 
-          let query = supabase.from('agent_memory').select('*')
+          const pageSize = Math.min(Math.max(limit, 1), 100)
+          let query = selectVisibleMemories({ agentId, conversationId, userId })
 
           if (key) {
             query = query.eq('key', key)
@@ -1022,7 +1804,10 @@ const handler = createMcpHandler(
             query = query.eq('category', category)
           }
 
-          const { data, error } = await query.limit(20)
+          // Fetch one extra row to know whether another page exists
+          const { data, error } = await query
+            .order('updated_at', { ascending: false })
+            .range(offset, offset + pageSize)
 
           if (error) {
             return {
@@ -1031,10 +1816,127 @@ const handler = createMcpHandler(
             }
           }
 
+          const memories = (data || []).slice(0, pageSize)
+          const hasMore = (data?.length || 0) > pageSize
+
+          return {
+            content: [{
+              type: 'text',
+              text: JSON.stringify({
+                success: true,
+                memories,
+                nextOffset: hasMore ? offset + pageSize : null
+              })
+            }]
+          }
+        } catch (err) {
+          return {
+            content: [{ type: 'text', text: `Error: ${err instanceof Error ? err.message : 'Unknown error'}` }],
+            isError: true
+          }
+        }
+      }
+    )
+
+    server.tool(
+      'search_memory',
+      'Search stored memories with a free-text question (e.g. "what did I say about the Oslo venue?"). Ranks by relevance in English and Norwegian and returns scores and snippets.',
+      {
+        query: z.string().describe('Free-text question or keywords'),
+        category: z.string().optional().describe('Only search this category'),
+        ...memoryScopeParams,
+        limit: z.number().optional().describe('Maximum results (default: 5)')
+      },
+      async ({ query, category, agentId, conversationId, userId, limit = 5 }) => {
+        try {
+          await cleanupExpiredMemories()
+
+          let candidates = selectVisibleMemories({ agentId, conversationId, userId })
+          if (category) {
+            candidates = candidates.eq('category', category)
+          }
+
+          const { data, error } = await candidates
+            .order('updated_at', { ascending: false })
+            .limit(MEMORY_SEARCH_CANDIDATES)
+
+          if (error) {
+            return {
+              content: [{ type: 'text', text: `Error searching memory: ${error.message}` }],
+              isError: true
+            }
+          }
+
+          const hits = rankMemories(query, data || [], { limit })
+
+          return {
+            content: [{
+              type: 'text',
+              text: JSON.stringify({
+                success: true,
+                query,
+                searched: data?.length || 0,
+                results: hits.map((hit) => ({
+                  key: hit.memory.key,
+                  category: hit.memory.category,
+                  score: hit.score,
+                  snippet: hit.snippet,
+                  matchedTerms: hit.matchedTerms,
+                  updated_at: hit.memory.updated_at
+                }))
+              })
+            }]
+          }
+        } catch (err) {
+          return {
+            content: [{ type: 'text', text: `Error: ${err instanceof Error ? err.message : 'Unknown error'}` }],
+            isError: true
+          }
+        }
+      }
+    )
+
+    server.tool(
+      'forget_memory',
+      'Delete stored memories by key or category within an exact scope.',
+      {
+        key: z.string().optional().describe('Key of the memory to forget'),
+        category: z.string().optional().describe('Forget every memory in this category'),
+        ...memoryScopeParams
+      },
+      async ({ key, category, agentId, conversationId, userId }) => {
+        try {
+          if (!key && !category) {
+            return {
+              content: [{ type: 'text', text: 'Error: Provide a key or category to forget' }],
+              isError: true
+            }
+          }
+
+          let query = deleteScopedMemories({ agentId, conversationId, userId })
+
+          if (key) {
+            query = query.eq('key', key)
+          }
+          if (category) {
+            query = query.eq('category', category)
+          }
+
+          const { data, error } = await query.select('key')
+
+          if (error) {
+            return {
+              content: [{ type: 'text', text: `Error forgetting memory: ${error.message}` }],
+              isError: true
+            }
+          }
+
+          await notifyResourcesChanged(server, (data || []).map((row) => memoryResourceUri(row.key, { agentId, conversationId, userId })))
+
           return {
             content: [{
               type: 'text',
-              text: JSON.stringify({ success: true, memories: data })
+              text: JSON.stringify({ success: true, forgotten: data?.length || 0, keys: (data || []).map((row) => row.key) })
             }]
           }
         } catch (err) {
@@ -1050,26 +1952,22 @@ const handler = createMcpHandler(
     // Mahana Toolkit Tools (System Knowledge for Agents)
     // =========================================================================
 
-    const TOOLKIT_BASE_URL = process.env.TOOLKIT_BASE_URL || 'https://mahana-mapper.vercel.app'
+    // Toolkit reads go through the cache in @/lib/toolkit-client
+
+    // Session memory, toolkit sections, stored memories and data paths as resources
+    registerResources(server)
+    // Workflow prompts filled in from live toolkit and terminal data
+    registerPrompts(server)
 
     server.tool(
       'get_system_toolkit',
       'Get the complete Mahana system toolkit - APIs, CLI commands, imports, costs, and more. Use this to understand what tools and capabilities are available.',
       {
-        section: z.enum(['apis', 'cli', 'imports', 'supabase', 'costs', 'transforms', 'pipeline_stages', 'presets', 'data_paths', 'env_vars', 'all']).optional().describe('Specific section to retrieve (default: all)')
+        section: z.enum(TOOLKIT_SECTIONS).optional().describe('Specific section to retrieve (default: all)')
       },
       async ({ section = 'all' }) => {
         try {
-          const url = section === 'all'
-            ? `${TOOLKIT_BASE_URL}/api/toolkit`
-            : `${TOOLKIT_BASE_URL}/api/toolkit?section=${section}`
-
-          const response = await fetch(url)
-          if (!response.ok) {
-            throw new Error(`HTTP ${response.status}`)
-          }
-
-          const data = await response.json()
+          const data = await fetchToolkitSection(section)
 
           return {
             content: [{
@@ -1098,18 +1996,9 @@ const handler = createMcpHandler(
       },
       async ({ format = 'markdown' }) => {
         try {
-          const url = format === 'json'
-            ? `${TOOLKIT_BASE_URL}/api/toolkit/commands?format=json`
-            : `${TOOLKIT_BASE_URL}/api/toolkit/commands`
-
-          const response = await fetch(url)
-          if (!response.ok) {
-            throw new Error(`HTTP ${response.status}`)
-          }
-
           const data = format === 'json'
-            ? await response.json()
-            : await response.text()
+            ? await fetchToolkitJson<unknown>('/api/toolkit/commands?format=json')
+            : (await fetchToolkit('/api/toolkit/commands')).body
 
           return {
             content: [{
@@ -1136,25 +2025,16 @@ const handler = createMcpHandler(
       },
       async ({ format = 'json' }) => {
         try {
-          const url = format === 'json'
-            ? `${TOOLKIT_BASE_URL}/api/toolkit/imports?format=json`
-            : `${TOOLKIT_BASE_URL}/api/toolkit/imports`
-
-          const response = await fetch(url)
-          if (!response.ok) {
-            throw new Error(`HTTP ${response.status}`)
-          }
-
           const data = format === 'json'
-            ? await response.json()
-            : await response.text()
+            ? await fetchToolkitJson<unknown>('/api/toolkit/imports?format=json')
+            : (await fetchToolkit('/api/toolkit/imports')).body
 
           return {
             content: [{
               type: 'text',
               text: format === 'json'
                 ? JSON.stringify({ success: true, imports: data })
-                : data
+                : String(data)
             }]
           }
         } catch (err) {
@@ -1172,12 +2052,7 @@ const handler = createMcpHandler(
       {},
       async () => {
         try {
-          const response = await fetch(`${TOOLKIT_BASE_URL}/api/toolkit?section=apis`)
-          if (!response.ok) {
-            throw new Error(`HTTP ${response.status}`)
-          }
-
-          const data = await response.json()
+          const data = await fetchToolkitSection('apis')
 
           return {
             content: [{
@@ -1206,13 +2081,8 @@ const handler = createMcpHandler(
       },
       async ({ category = 'all' }) => {
         try {
-          const response = await fetch(`${TOOLKIT_BASE_URL}/api/toolkit?section=cli`)
-          if (!response.ok) {
-            throw new Error(`HTTP ${response.status}`)
-          }
-
-          const data = await response.json()
-          const cli = data.cli
+          const data = await fetchToolkitSection('cli')
+          const cli = data.cli as Record<string, unknown>
 
           const result = category === 'all'
             ? cli
@@ -1244,12 +2114,7 @@ const handler = createMcpHandler(
       {},
       async () => {
         try {
-          const response = await fetch(`${TOOLKIT_BASE_URL}/api/toolkit?section=costs`)
-          if (!response.ok) {
-            throw new Error(`HTTP ${response.status}`)
-          }
-
-          const data = await response.json()
+          const data = await fetchToolkitSection('costs')
 
           return {
             content: [{
@@ -1276,12 +2141,8 @@ const handler = createMcpHandler(
       {},
       async () => {
         try {
-          const response = await fetch(`${TOOLKIT_BASE_URL}/api/toolkit`)
-          if (!response.ok) {
-            throw new Error(`HTTP ${response.status}`)
-          }
-
-          const data = await response.json()
+          // Two small sections instead of the whole toolkit
+          const [stages, presets] = await Promise.all([fetchToolkitSection('pipeline_stages'), fetchToolkitSection('presets')])
 
           return {
             content: [{
@@ -1289,8 +2150,8 @@ const handler = createMcpHandler(
               text: JSON.stringify({
                 success: true,
                 description: 'Mahana Pipeline Stages',
-                stages: data.pipeline_stages,
-                presets: data.presets
+                stages: stages.pipeline_stages,
+                presets: presets.presets
               })
             }]
           }
@@ -1307,17 +2168,12 @@ const handler = createMcpHandler(
       'lookup_data_path',
       'Look up file paths for Mahana data storage locations.',
       {
-        type: z.enum(['golden_records', 'scraped_data', 'text_corpus', 'embeddings', 'all_images', 'brreg_data', 'musicians', 'dossiers']).describe('Type of data path to look up')
+        type: z.enum(DATA_PATH_TYPES).describe('Type of data path to look up')
       },
       async ({ type }) => {
         try {
-          const response = await fetch(`${TOOLKIT_BASE_URL}/api/toolkit?section=data_paths`)
-          if (!response.ok) {
-            throw new Error(`HTTP ${response.status}`)
-          }
-
-          const data = await response.json()
-          const paths = data.data_paths
+          const data = await fetchToolkitSection('data_paths')
+          const paths = data.data_paths as Record<string, unknown>
 
           return {
             content: [{
@@ -1338,12 +2194,75 @@ const handler = createMcpHandler(
         }
       }
     )
+
+    server.tool(
+      'refresh_toolkit_cache',
+      'Refresh cached toolkit data now instead of waiting for it to expire. Use after the toolkit has been updated.',
+      {
+        section: z.enum(TOOLKIT_SECTIONS).optional().describe('Only refresh this section (default: everything cached)')
+      },
+      async ({ section }) => {
+        try {
+          const result = await refreshToolkitCache(section ? [toolkitSectionPath(section)] : undefined)
+
+          return {
+            content: [{
+              type: 'text',
+              text: JSON.stringify({ success: result.failed.length === 0, ...result })
+            }]
+          }
+        } catch (err) {
+          return {
+            content: [{ type: 'text', text: `Error refreshing toolkit cache: ${err instanceof Error ? err.message : 'Unknown error'}` }],
+            isError: true
+          }
+        }
+      }
+    )
+
+    // =========================================================================
+    // Audit Tools
+    // =========================================================================
+
+    server.tool(
+      'get_audit_log',
+      'Get recorded tool invocations (newest first). Use to reconstruct what a session did, e.g. which commands ran in a terminal.',
+      {
+        tool: z.string().optional().describe('Only calls to this tool'),
+        caller: z.string().optional().describe('Only calls made with this API key name'),
+        since: z.string().optional().describe('ISO timestamp - only calls at or after this time'),
+        until: z.string().optional().describe('ISO timestamp - only calls at or before this time'),
+        outcome: z.enum(['success', 'error', 'all']).optional().describe('Filter by outcome (default: all)'),
+        limit: z.number().optional().describe('Maximum records to return (default: 50, max: 500)')
+      },
+      async ({ tool, caller, since, until, outcome = 'all', limit = 50 }) => {
+        try {
+          const { source, records } = await queryAuditLog({ tool, caller, since, until, outcome, limit })
+
+          return {
+            content: [{
+              type: 'text',
+              text: JSON.stringify({ success: true, source, count: records.length, records })
+            }]
+          }
+        } catch (err) {
+          return {
+            content: [{ type: 'text', text: `Error reading audit log: ${err instanceof Error ? err.message : 'Unknown error'}` }],
+            isError: true
+          }
+        }
+      }
+    )
   },
   {
     // Server metadata - wrapped in serverInfo
     serverInfo: {
       name: 'mahana-mcp-server',
       version: '1.0.0',
+    },
+    // Logging lets streaming tools send output chunks as notifications/message
+    capabilities: {
+      logging: {},
     }
   },
   {
@@ -1355,34 +2274,83 @@ const handler = createMcpHandler(
   }
 )
 
+// List results that scoped keys only see their share of
+const FILTERED_LIST_METHODS = ['tools/list', 'resources/list', 'resources/templates/list', 'prompts/list']
+
+// JSON-RPC error response helper for the auth layer
+function jsonRpcError(status: number, code: number, message: string, id: string | number | null = null) {
+  return new Response(JSON.stringify({
+    jsonrpc: '2.0',
+    error: { code, message },
+    id
+  }), {
+    status,
+    headers: { 'Content-Type': 'application/json' }
+  })
+}
+
 // API Key authentication wrapper
 // NOTE: Must read env var at runtime, not at module load time (for Vercel serverless)
 function withAuth(mcpHandler: (req: Request) => Promise<Response>) {
   return async (req: Request): Promise<Response> => {
-    // Read at runtime to get the actual deployed env var
-    const apiKey = process.env.MCP_API_KEY
+    // Read at runtime to get the actual deployed keys
+    const keys = await loadApiKeys()
 
-    // If no API key configured, allow all (dev mode)
-    if (!apiKey) {
-      console.warn('[MCP] No MCP_API_KEY configured - running in open mode')
+    // If no API keys configured, allow all (dev mode)
+    if (keys.length === 0) {
+      console.warn('[MCP] No MCP_API_KEY / MCP_API_KEYS configured - running in open mode')
       return mcpHandler(req)
     }
 
     // Check for API key in header (x-api-key or Bearer token)
     const providedKey = req.headers.get('x-api-key') || req.headers.get('authorization')?.replace('Bearer ', '')
+    const entry = providedKey ? matchApiKey(providedKey, keys) : null
+
+    if (!providedKey || !entry) {
+      return jsonRpcError(401, -32001, 'Unauthorized: Invalid or missing API key')
+    }
+
+    // Picked up by mcp-handler and passed to tools as extra.authInfo
+    req.auth = toAuthInfo(entry, providedKey)
+
+    if (entry.groups.includes('*')) {
+      return mcpHandler(req)
+    }
+
+    if (req.method !== 'POST') {
+      // The SSE transport delivers list results on this stream
+      const response = await mcpHandler(req)
+      const isStream = (response.headers.get('content-type') || '').includes('text/event-stream')
+      return isStream ? filterListStream(response, entry.groups) : response
+    }
+
+    // Scoped key: inspect the JSON-RPC payload before handing it over
+    let payload: unknown
+    try {
+      payload = await req.clone().json()
+    } catch {
+      return mcpHandler(req)
+    }
 
-    if (providedKey !== apiKey) {
-      return new Response(JSON.stringify({
-        jsonrpc: '2.0',
-        error: { code: -32001, message: 'Unauthorized: Invalid or missing API key' },
-        id: null
-      }), {
-        status: 401,
-        headers: { 'Content-Type': 'application/json' }
-      })
+    const forbidden = findForbiddenToolCall(payload, entry.groups)
+    if (forbidden) {
+      return jsonRpcError(403, -32003, `Forbidden: API key "${entry.name}" may not call tool "${forbidden.tool}"`, forbidden.id)
     }
 
-    return mcpHandler(req)
+    const forbiddenRead = findForbiddenRead(payload, entry.groups)
+    if (forbiddenRead) {
+      return jsonRpcError(403, -32003, `Forbidden: API key "${entry.name}" may not read ${forbiddenRead.kind} "${forbiddenRead.name}"`, forbiddenRead.id)
+    }
+
+    const response = await mcpHandler(req)
+
+    // List results are filtered so clients only see what they can use.
+    // (Over the SSE transport the result travels on the GET stream instead,
+    // which is filtered above.)
+    const isList = (Array.isArray(payload) ? payload : [payload])
+      .some((message) => FILTERED_LIST_METHODS.includes((message as { method?: string })?.method || ''))
+
+    return isList ? filterListResponse(response, entry.groups) : response
   }
 }
 
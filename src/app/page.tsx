@@ -14,6 +14,8 @@ export default function Home() {
         <li><strong>check_command_status</strong> - Check status/result of a submitted command</li>
         <li><strong>get_pending_commands</strong> - List commands waiting to be executed</li>
         <li><strong>get_recent_commands</strong> - Get recently executed commands and results</li>
+        <li><strong>wait_for_terminal_output</strong> - Wait for output matching a pattern or a terminal state change</li>
+        <li><strong>list_devices</strong> - List registered i-View machines and whether they are reachable</li>
       </ul>
 
       <h2>Terminal Session Management</h2>
@@ -28,8 +30,21 @@ export default function Home() {
       <ul>
         <li><strong>start_claude_agent</strong> - Start a new Claude Code agent in a terminal</li>
         <li><strong>send_to_claude_agent</strong> - Send message to a running Claude agent</li>
-        <li><strong>get_claude_agent_status</strong> - Get status and recent output from Claude agent</li>
+        <li><strong>get_claude_agent_status</strong> - Agent state, permission prompts and its last reply; can wait until idle</li>
         <li><strong>list_claude_agents</strong> - List all Claude Code agent sessions</li>
+        <li><strong>dispatch_subtasks</strong> - Run subtasks in parallel across idle agents and new minis</li>
+        <li><strong>check_dispatch_status</strong> - Combined progress report for a dispatch</li>
+      </ul>
+
+      <h2>Browser Tools</h2>
+      <ul>
+        <li><strong>navigate_browser</strong> - Open a URL</li>
+        <li><strong>click_element</strong> - Click by selector or text</li>
+        <li><strong>fill_input</strong> - Fill an input</li>
+        <li><strong>query_elements</strong> - Query elements by selector</li>
+        <li><strong>take_screenshot</strong> - Screenshot the browser view</li>
+        <li><strong>get_console_logs</strong> - Browser console logs</li>
+        <li><strong>run_browser_flow</strong> - Run navigate/click/fill/wait/assert/screenshot steps in one call</li>
       </ul>
 
       <h2>Utility Tools</h2>
@@ -43,12 +58,33 @@ export default function Home() {
         <li><strong>supabase_insert</strong> - Insert records</li>
         <li><strong>supabase_update</strong> - Update records</li>
         <li><strong>supabase_delete</strong> - Delete records</li>
+        <li><strong>restore_deleted_rows</strong> - Undo a delete</li>
+        <li><strong>supabase_rpc</strong> - Call allowlisted Postgres functions</li>
+        <li><strong>list_supabase_tables</strong> - List accessible tables</li>
+        <li><strong>describe_supabase_table</strong> - Show columns, types and keys</li>
       </ul>
 
       <h2>Memory Tools</h2>
       <ul>
         <li><strong>store_memory</strong> - Store agent memory</li>
         <li><strong>recall_memory</strong> - Retrieve agent memory</li>
+        <li><strong>search_memory</strong> - Ranked free-text search over memory</li>
+        <li><strong>forget_memory</strong> - Delete agent memory</li>
+      </ul>
+
+      <h2>Resources</h2>
+      <ul>
+        <li><strong>session-memory://&#123;device&#125;/&#123;session&#125;</strong> - SESSION_MEMORY.md for a session</li>
+        <li><strong>toolkit://&#123;section&#125;</strong> - System toolkit sections</li>
+        <li><strong>agent-memory://&#123;agentId&#125;/&#123;conversationId&#125;/&#123;userId&#125;/&#123;key&#125;</strong> - Stored memories (subscribable)</li>
+        <li><strong>data-path://&#123;type&#125;</strong> - Data storage locations</li>
+      </ul>
+
+      <h2>Prompts</h2>
+      <ul>
+        <li><strong>start_coding_agent</strong> - Open a session on a repo and start a Claude mini agent</li>
+        <li><strong>diagnose_browser_page</strong> - Snapshot and console errors for the browser view</li>
+        <li><strong>run_pipeline_preset</strong> - Run a toolkit pipeline preset in a terminal</li>
       </ul>
     </main>
   )
@@ -0,0 +1,433 @@
+/**
+ * Fan-out dispatch of subtasks across Claude agents
+ *
+ * dispatch_subtasks takes a list of subtasks and hands each one to an agent:
+ * an idle agent from /quick/agents when there is one, otherwise a mini
+ * spawned in a new session (unless spawning is off). At most maxAgents
+ * subtasks run at once; the rest wait and are handed to the first agent of
+ * this dispatch that frees up.
+ *
+ * Progress is tracked by watching agent state. A subtask counts as started
+ * once its agent is seen working, and as done when the agent is idle again
+ * (or idle after a grace period, for tasks too quick to be seen working).
+ * An agent in the error state fails its subtask. At the deadline, whatever
+ * is still pending or running is marked timed_out.
+ *
+ * Like command jobs, dispatches are stored in Supabase (MCP_DISPATCH_TABLE,
+ * default "mcp_agent_dispatches", subtasks in a JSON column) when
+ * configured, otherwise in memory, so any instance can report on them.
+ * Refreshes may overlap (check_dispatch_status on two instances), so every
+ * write is a compare-and-set on the statuses the refresh read, and subtasks
+ * are claimed - marked sending - before they are sent. A refresh that loses
+ * the race reports the stored copy instead of sending anything. A subtask
+ * left sending by an instance that died mid-send times out at the deadline.
+ *
+ * Subtask states: pending -> sending -> sent -> working -> done | failed | timed_out
+ */
+
+import { randomUUID } from 'node:crypto'
+import { agentMatches, agentState, IDLE_AGENT_STATES, listAgentEntries, type AgentEntry } from './agent-status'
+import { resolveDevice } from './devices'
+import { extractLines, stripMarkerLines } from './command-jobs'
+import { iview } from './iview-client'
+import { remainingMs, requestDeadline } from './request-deadline'
+import { getSupabase, isSupabaseConfigured } from './supabase'
+
+export type SubtaskStatus = 'pending' | 'sending' | 'sent' | 'working' | 'done' | 'failed' | 'timed_out'
+export type DispatchStatus = 'running' | 'completed' | 'timed_out'
+
+export interface Subtask {
+  index: number
+  label: string
+  task: string
+  cwd: string | null
+  terminal: string | null
+  // Ran in a session this dispatch created
+  spawned: boolean
+  status: SubtaskStatus
+  error: string | null
+  // Tail of the agent's terminal when the subtask finished
+  output: string[]
+  sent_at: string | null
+  started_at: string | null
+  finished_at: string | null
+}
+
+export interface Dispatch {
+  id: string
+  // Registered i-View device (null = default machine)
+  device: string | null
+  status: DispatchStatus
+  max_agents: number
+  spawn: boolean
+  caller: string
+  subtasks: Subtask[]
+  created_at: string
+  deadline_at: string
+  finished_at: string | null
+}
+
+export interface SubtaskInput {
+  task: string
+  label?: string
+  cwd?: string
+}
+
+const DEFAULT_DEADLINE_SECONDS = 30 * 60
+export const MAX_DISPATCH_AGENTS = 8
+export const MAX_DISPATCH_SUBTASKS = 20
+
+// An idle agent that was never seen working counts as done after this long
+const SEND_GRACE_MS = 20_000
+
+const POLL_INTERVAL_MS = 2000
+
+// spawnMini waits 3s for the agent to come up by default
+const SPAWN_TIMEOUT_MS = 13_000
+// Below this much time left in the tool call, sending waits for a later
+// refresh: a send cut off by the deadline may still have been delivered
+const MIN_SEND_TIME_MS = 15_000
+const OUTPUT_TAIL_LINES = 15
+// Tries at storing sent subtasks onto a copy another refresh keeps changing
+const SAVE_ATTEMPTS = 3
+
+const ACTIVE_STATUSES: SubtaskStatus[] = ['sending', 'sent', 'working']
+const FINISHED_STATUSES: SubtaskStatus[] = ['done', 'failed', 'timed_out']
+
+const MAX_MEMORY_DISPATCHES = 50
+const memoryDispatches = new Map<string, Dispatch>()
+
+const getDispatchTable = () => process.env.MCP_DISPATCH_TABLE || 'mcp_agent_dispatches'
+
+const newDispatchId = () => randomUUID().replace(/-/g, '').slice(0, 12)
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms))
+
+interface Assignment {
+  subtask: Subtask
+  // null = spawn a mini in a new session
+  terminal: string | null
+}
+
+const sameStatuses = (a: Dispatch, b: Dispatch) =>
+  a.status === b.status &&
+  a.subtasks.length === b.subtasks.length &&
+  a.subtasks.every((subtask, position) => subtask.status === b.subtasks[position].status)
+
+function withSubtasks(dispatch: Dispatch, changed: Subtask[]): Dispatch {
+  const byIndex = new Map(changed.map((subtask) => [subtask.index, subtask]))
+  return { ...dispatch, subtasks: dispatch.subtasks.map((subtask) => byIndex.get(subtask.index) || subtask) }
+}
+
+async function saveDispatch(dispatch: Dispatch): Promise<void> {
+  if (isSupabaseConfigured()) {
+    const { error } = await getSupabase().from(getDispatchTable()).upsert(dispatch, { onConflict: 'id' })
+    if (!error) {
+      return
+    }
+    console.error(`[MCP] Dispatch store upsert failed, keeping dispatch in memory: ${error.message}`)
+  }
+
+  rememberDispatch(dispatch)
+}
+
+/**
+ * Store `next` only if the dispatch status and every subtask status are
+ * still as in `expected`. Returns false when another refresh got there
+ * first.
+ */
+async function saveIfUnchanged(expected: Dispatch, next: Dispatch): Promise<boolean> {
+  // A dispatch that fell back to memory stays there, as in getDispatch
+  if (isSupabaseConfigured() && !memoryDispatches.has(next.id)) {
+    let query = getSupabase().from(getDispatchTable()).update(next).eq('id', next.id).eq('status', expected.status)
+    expected.subtasks.forEach((subtask, position) => {
+      query = query.eq(`subtasks->${position}->>status`, subtask.status)
+    })
+    const { data, error } = await query.select('id')
+    if (!error) {
+      return (data || []).length > 0
+    }
+    console.error(`[MCP] Dispatch store update failed, keeping dispatch in memory: ${error.message}`)
+  }
+
+  const stored = memoryDispatches.get(next.id)
+  if (stored && !sameStatuses(stored, expected)) {
+    return false
+  }
+  rememberDispatch(next)
+  return true
+}
+
+function rememberDispatch(dispatch: Dispatch) {
+  memoryDispatches.set(dispatch.id, dispatch)
+  if (memoryDispatches.size > MAX_MEMORY_DISPATCHES) {
+    const oldest = memoryDispatches.keys().next().value
+    if (oldest) memoryDispatches.delete(oldest)
+  }
+}
+
+export async function getDispatch(id: string): Promise<Dispatch | null> {
+  if (memoryDispatches.has(id)) {
+    return memoryDispatches.get(id) || null
+  }
+  if (isSupabaseConfigured()) {
+    const { data, error } = await getSupabase().from(getDispatchTable()).select('*').eq('id', id).maybeSingle()
+    if (!error && data) {
+      return data as Dispatch
+    }
+  }
+  return null
+}
+
+async function readTail(device: string | null, terminal: string, deadline: number): Promise<string[]> {
+  const result = await iview.terminalOutput({ lines: OUTPUT_TAIL_LINES, terminal }, { device, retries: 0, deadline })
+  return result.success ? stripMarkerLines(extractLines(result.data)) : []
+}
+
+// Hand a subtask to an existing agent, or spawn a mini for it in a new session
+async function sendSubtask(dispatch: Dispatch, subtask: Subtask, terminal: string | null, deadline: number): Promise<Subtask> {
+  const sentAt = new Date().toISOString()
+
+  if (terminal) {
+    const result = await iview.sendToAgent({ message: subtask.task, terminal, mode: 'prompt' }, { device: dispatch.device, deadline })
+    return result.success
+      ? { ...subtask, terminal, status: 'sent', sent_at: sentAt }
+      : { ...subtask, terminal, status: 'failed', error: result.error || 'Unknown error', finished_at: sentAt }
+  }
+
+  const session = await iview.createSession(
+    { name: `dispatch-${dispatch.id}-${subtask.index + 1}`, workingDirectory: subtask.cwd || undefined },
+    { device: dispatch.device, deadline }
+  )
+  if (!session.success) {
+    return { ...subtask, status: 'failed', error: session.error || 'Unknown error', finished_at: sentAt }
+  }
+
+  const sessionTerminal = session.data?.terminal || session.data?.sessionId || `dispatch-${dispatch.id}-${subtask.index + 1}`
+  const mini = await iview.spawnMini(
+    { terminal: sessionTerminal, cwd: subtask.cwd || undefined, firstMessage: subtask.task },
+    { device: dispatch.device, timeoutMs: SPAWN_TIMEOUT_MS, deadline }
+  )
+  return mini.success
+    ? { ...subtask, terminal: mini.data?.terminal || sessionTerminal, spawned: true, status: 'sent', sent_at: sentAt }
+    : { ...subtask, terminal: sessionTerminal, spawned: true, status: 'failed', error: mini.error || 'Unknown error', finished_at: sentAt }
+}
+
+/**
+ * Pick pending subtasks to start while there is capacity. Terminals this
+ * dispatch already used are preferred once free, then other idle agents,
+ * then new minis.
+ */
+function planAssignments(dispatch: Dispatch, agents: AgentEntry[], deadline: number): Assignment[] {
+  const pending = dispatch.subtasks.filter((subtask) => subtask.status === 'pending')
+  const running = dispatch.subtasks.filter((subtask) => ACTIVE_STATUSES.includes(subtask.status))
+  const capacity = dispatch.max_agents - running.length
+  if (dispatch.status !== 'running' || pending.length === 0 || capacity <= 0 || remainingMs(deadline) < MIN_SEND_TIME_MS) {
+    return []
+  }
+
+  const busy = new Set(running.map((subtask) => subtask.terminal))
+  const ownTerminals = dispatch.subtasks
+    .filter((subtask) => subtask.status === 'done' && subtask.terminal && !busy.has(subtask.terminal))
+    .map((subtask) => subtask.terminal as string)
+  const idleTerminals = agents
+    .filter((agent) => IDLE_AGENT_STATES.includes(agentState(agent) || ''))
+    .map((agent) => String(agent.terminal ?? agent.id ?? agent.name ?? ''))
+    .filter(Boolean)
+
+  const free = [...new Set([...ownTerminals, ...idleTerminals])].filter((terminal) =>
+    !busy.has(terminal) && agents.some((agent) => agentMatches(agent, terminal) && IDLE_AGENT_STATES.includes(agentState(agent) || ''))
+  )
+
+  const plan: Assignment[] = []
+  for (const subtask of pending.slice(0, capacity)) {
+    const terminal = free.shift() || null
+    if (!terminal && !dispatch.spawn) break
+    plan.push({ subtask, terminal })
+  }
+  return plan
+}
+
+/**
+ * Store the outcome of sending claimed subtasks. Nothing else moves a
+ * sending subtask on, but other refreshes may change the rest meanwhile, so
+ * a lost compare-and-set is retried on the latest copy.
+ */
+async function saveSent(claimed: Dispatch, sent: Subtask[]): Promise<Dispatch> {
+  let base = claimed
+  for (let attempt = 1; attempt < SAVE_ATTEMPTS; attempt++) {
+    const updated = applyDeadline(withSubtasks(base, sent))
+    if (await saveIfUnchanged(base, updated)) {
+      return updated
+    }
+    base = (await getDispatch(claimed.id)) || base
+  }
+  // Losing what was sent would send it again, so the last try always writes
+  const updated = applyDeadline(withSubtasks(base, sent))
+  await saveDispatch(updated)
+  return updated
+}
+
+// Update running subtasks from agent state
+async function trackRunning(dispatch: Dispatch, agents: AgentEntry[], deadline: number): Promise<Dispatch> {
+  const now = Date.now()
+  const subtasks = await Promise.all(dispatch.subtasks.map(async (subtask): Promise<Subtask> => {
+    // A sending subtask is updated by the refresh sending it
+    if (!ACTIVE_STATUSES.includes(subtask.status) || subtask.status === 'sending' || !subtask.terminal) {
+      return subtask
+    }
+
+    const state = agentState(agents.find((agent) => agentMatches(agent, subtask.terminal as string)))
+    if (state === 'working') {
+      return subtask.status === 'working' ? subtask : { ...subtask, status: 'working', started_at: new Date(now).toISOString() }
+    }
+
+    const settled = subtask.status === 'working' || now - Date.parse(subtask.sent_at || '') >= SEND_GRACE_MS
+    if (state === 'error' || (state && IDLE_AGENT_STATES.includes(state) && settled)) {
+      return {
+        ...subtask,
+        status: state === 'error' ? 'failed' : 'done',
+        error: state === 'error' ? 'Agent reported an error' : null,
+        output: await readTail(dispatch.device, subtask.terminal, deadline),
+        finished_at: new Date(now).toISOString(),
+      }
+    }
+    return subtask
+  }))
+  return { ...dispatch, subtasks }
+}
+
+function applyDeadline(dispatch: Dispatch): Dispatch {
+  const now = new Date().toISOString()
+  if (dispatch.subtasks.every((subtask) => FINISHED_STATUSES.includes(subtask.status))) {
+    return { ...dispatch, status: 'completed', finished_at: dispatch.finished_at || now }
+  }
+  if (now < dispatch.deadline_at) {
+    return dispatch
+  }
+  return {
+    ...dispatch,
+    status: 'timed_out',
+    finished_at: now,
+    subtasks: dispatch.subtasks.map((subtask) =>
+      FINISHED_STATUSES.includes(subtask.status) ? subtask : { ...subtask, status: 'timed_out', finished_at: now }
+    ),
+  }
+}
+
+/**
+ * Bring a dispatch up to date: track running subtasks, start pending ones
+ * and apply the deadline. Finished dispatches are returned as stored, and
+ * so is the stored copy when another refresh changed it first.
+ * `callDeadline` is the tool call's (requestDeadline()), not the dispatch's.
+ */
+export async function refreshDispatch(dispatch: Dispatch, callDeadline = requestDeadline()): Promise<Dispatch> {
+  if (dispatch.status !== 'running') {
+    return dispatch
+  }
+
+  const agents = await listAgentEntries(dispatch.device, callDeadline)
+  const updated = applyDeadline(agents ? await trackRunning(dispatch, agents, callDeadline) : dispatch)
+  const plan = agents ? planAssignments(updated, agents, callDeadline) : []
+
+  // Claimed subtasks record their terminal, so it counts as busy elsewhere
+  const claimed = plan.length
+    ? withSubtasks(updated, plan.map(({ subtask, terminal }) => ({ ...subtask, terminal, status: 'sending' as const })))
+    : updated
+  if (!(await saveIfUnchanged(dispatch, claimed))) {
+    return (await getDispatch(dispatch.id)) || dispatch
+  }
+  if (!plan.length) {
+    return claimed
+  }
+
+  const sent = await Promise.all(plan.map(({ subtask, terminal }) => sendSubtask(claimed, subtask, terminal, callDeadline)))
+  return saveSent(claimed, sent)
+}
+
+export async function startDispatch(options: {
+  tasks: SubtaskInput[]
+  device?: string
+  cwd?: string
+  maxAgents?: number
+  spawn?: boolean
+  deadlineSeconds?: number
+  caller: string
+  // The tool call's, from requestDeadline() (default: now)
+  callDeadline?: number
+}): Promise<Dispatch> {
+  const { tasks, device, cwd, spawn = true, deadlineSeconds = DEFAULT_DEADLINE_SECONDS, caller } = options
+  const createdAt = new Date()
+
+  const dispatch: Dispatch = {
+    id: newDispatchId(),
+    device: device ? (await resolveDevice(device))?.name || device : null,
+    status: 'running',
+    max_agents: Math.min(Math.max(options.maxAgents || tasks.length, 1), MAX_DISPATCH_AGENTS),
+    spawn,
+    caller,
+    subtasks: tasks.map((input, index) => ({
+      index,
+      label: input.label || `Subtask ${index + 1}`,
+      task: input.task,
+      cwd: input.cwd || cwd || null,
+      terminal: null,
+      spawned: false,
+      status: 'pending',
+      error: null,
+      output: [],
+      sent_at: null,
+      started_at: null,
+      finished_at: null,
+    })),
+    created_at: createdAt.toISOString(),
+    deadline_at: new Date(createdAt.getTime() + deadlineSeconds * 1000).toISOString(),
+    finished_at: null,
+  }
+
+  await saveDispatch(dispatch)
+  return refreshDispatch(dispatch, options.callDeadline)
+}
+
+/**
+ * Keep refreshing until the dispatch finishes, waitMs or the tool call's
+ * deadline passes, or the request is cancelled.
+ */
+export async function waitForDispatch(
+  dispatch: Dispatch,
+  waitMs: number,
+  signal?: AbortSignal,
+  callDeadline = requestDeadline()
+): Promise<Dispatch> {
+  const until = Math.min(Date.now() + waitMs, callDeadline)
+  let current = dispatch
+  while (current.status === 'running' && Date.now() + POLL_INTERVAL_MS < until && !signal?.aborted) {
+    await sleep(POLL_INTERVAL_MS)
+    current = await refreshDispatch(current, callDeadline)
+  }
+  return current
+}
+
+// Combined report for tool responses
+export function dispatchReport(dispatch: Dispatch) {
+  const counts: Partial<Record<SubtaskStatus, number>> = {}
+  for (const subtask of dispatch.subtasks) {
+    counts[subtask.status] = (counts[subtask.status] || 0) + 1
+  }
+  return {
+    dispatchId: dispatch.id,
+    status: dispatch.status,
+    device: dispatch.device,
+    deadlineAt: dispatch.deadline_at,
+    counts,
+    subtasks: dispatch.subtasks.map((subtask) => ({
+      label: subtask.label,
+      status: subtask.status,
+      terminal: subtask.terminal,
+      spawned: subtask.spawned,
+      ...(subtask.error ? { error: subtask.error } : {}),
+      ...(subtask.output.length ? { output: subtask.output } : {}),
+      durationMs: subtask.sent_at && subtask.finished_at ? Date.parse(subtask.finished_at) - Date.parse(subtask.sent_at) : null,
+    })),
+  }
+}
@@ -0,0 +1,106 @@
+/**
+ * Scoping and expiry for the agent_memory table
+ *
+ * Memories live in a namespace made of agent_id, conversation_id and user_id
+ * (empty string = not scoped on that level, so unique keys work without NULL
+ * semantics). The table needs these columns next to key/value/category:
+ *   agent_id text not null default '', conversation_id text not null default '',
+ *   user_id text not null default '', expires_at timestamptz,
+ *   unique (agent_id, conversation_id, user_id, key)
+ * supabase/migrations/20261019000000_agent_memory_scopes.sql adds them to an
+ * existing table; until it has run, store_memory fails with an error saying so.
+ *
+ * Writes and deletes target the exact namespace. Reads also see broader
+ * memories: a recall for agent A in conversation C sees A+C notes, A-wide
+ * notes and global ones, but never another agent's or conversation's.
+ */
+
+import { z } from 'zod'
+import { getSupabase } from './supabase'
+
+export const MEMORY_TABLE = 'agent_memory'
+
+const SCOPE_MIGRATION = 'supabase/migrations/20261019000000_agent_memory_scopes.sql'
+
+// No matching ON CONFLICT constraint, unknown column (Postgres / PostgREST)
+const MISSING_SCHEMA_CODES = ['42P10', '42703', 'PGRST204']
+
+// Spread into a tool's parameter shape
+export const memoryScopeParams = {
+  agentId: z.string().optional().describe('Agent namespace (e.g. the ElevenLabs agent ID)'),
+  conversationId: z.string().optional().describe('Conversation namespace - memories stay private to this conversation'),
+  userId: z.string().optional().describe('User namespace')
+}
+
+export interface MemoryScope {
+  agentId?: string
+  conversationId?: string
+  userId?: string
+}
+
+// Expired rows are swept at most this often per server instance
+const CLEANUP_INTERVAL_MS = 10 * 60 * 1000
+let lastCleanup = 0
+
+export function scopeColumns(scope: MemoryScope) {
+  return {
+    agent_id: scope.agentId || '',
+    conversation_id: scope.conversationId || '',
+    user_id: scope.userId || ''
+  }
+}
+
+export function upsertConflictTarget() {
+  return 'agent_id,conversation_id,user_id,key'
+}
+
+// Error text for a failed memory write, naming the migration when the table predates it
+export function memoryWriteError(error: { code?: string; message: string }): string {
+  return MISSING_SCHEMA_CODES.includes(error.code || '')
+    ? `${MEMORY_TABLE} lacks the scope columns or the unique (agent_id, conversation_id, user_id, key) constraint - run ${SCOPE_MIGRATION} (${error.message})`
+    : error.message
+}
+
+export function expiresAtFromTtl(ttlSeconds?: number): string | null {
+  return ttlSeconds && ttlSeconds > 0 ? new Date(Date.now() + ttlSeconds * 1000).toISOString() : null
+}
+
+// Double-quoted PostgREST literal (the empty string needs quoting in lists)
+const quoted = (value: string) => `"${value.replace(/\\/g, '\\\\').replace(/"/g, '\\"')}"`
+
+// Memories in this namespace plus the broader namespaces above it, excluding expired rows
+export function selectVisibleMemories(scope: MemoryScope) {
+  let query = getSupabase().from(MEMORY_TABLE).select('*')
+  for (const [column, value] of Object.entries(scopeColumns(scope))) {
+    query = value ? query.filter(column, 'in', `(${quoted(value)},"")`) : query.eq(column, '')
+  }
+  return query.or(`expires_at.is.null,expires_at.gt.${quoted(new Date().toISOString())}`)
+}
+
+// Delete within the exact namespace
+export function deleteScopedMemories(scope: MemoryScope) {
+  return getSupabase().from(MEMORY_TABLE).delete().match(scopeColumns(scope))
+}
+
+/**
+ * Delete expired memories. Runs opportunistically from the memory tools,
+ * throttled so it costs at most one extra query every few minutes.
+ */
+export async function cleanupExpiredMemories(force = false): Promise<number> {
+  if (!force && Date.now() - lastCleanup < CLEANUP_INTERVAL_MS) {
+    return 0
+  }
+  lastCleanup = Date.now()
+
+  const { data, error } = await getSupabase()
+    .from(MEMORY_TABLE)
+    .delete()
+    .lt('expires_at', new Date().toISOString())
+    .select('key')
+
+  if (error) {
+    console.error(`[MCP] Expired memory cleanup failed: ${error.message}`)
+    return 0
+  }
+  return data?.length || 0
+}
@@ -0,0 +1,221 @@
+/**
+ * Claude agent status from i-View state plus the agent's own scrollback
+ *
+ * /quick/agents only reports a raw state per terminal. For one agent this
+ * adds:
+ *   - how long it has been in that state (from i-View when it says, else
+ *     since this instance first saw the state - an estimate)
+ *   - a pending permission prompt ("Do you want to proceed?" and its
+ *     numbered choices)
+ *   - its last complete reply, read from the Claude Code TUI with the
+ *     prompt box, spinners, tool calls and tool output stripped
+ * With waitUntilIdle the read is repeated until the agent stops working,
+ * asks for permission, or errors or exits.
+ */
+
+import { extractLines } from './command-jobs'
+import { iview } from './iview-client'
+import { cleanTerminalText } from './output-sanitizer'
+import { remainingMs, requestDeadline } from './request-deadline'
+
+export type AgentEntry = Record<string, unknown>
+
+// States in which an agent is not busy and will take a new message
+export const IDLE_AGENT_STATES = ['waiting', 'idle', 'sleeping']
+// States an agent won't leave by itself, so waiting on them is pointless
+const STOPPED_AGENT_STATES = ['error', 'exited']
+
+export interface PermissionPrompt {
+  question: string
+  options: string[]
+}
+
+export interface AgentStatus {
+  terminal: string
+  state: string | null
+  stateSince: string | null
+  timeInStateMs: number | null
+  // stateSince is when this server first saw the state, not when it began
+  timeInStateIsEstimate: boolean
+  permissionPrompt: PermissionPrompt | null
+  lastReply: string | null
+}
+
+export type AgentWaitReason = 'idle' | 'permission' | 'stopped' | 'timeout' | 'cancelled'
+
+const SCROLLBACK_LINES = 500
+const DEFAULT_WAIT_TIMEOUT_MS = 30_000
+const POLL_INTERVAL_MS = 1000
+
+// Prompts are searched for near the bottom only, so answered ones don't linger
+const PERMISSION_SEARCH_LINES = 25
+
+// First state observation per device/terminal, for time-in-state estimates
+const observedStates = new Map<string, { state: string; since: number }>()
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms))
+
+// Agents identify their terminal by name, ID or session ID
+export const agentMatches = (agent: AgentEntry, terminal: string) =>
+  [agent.terminal, agent.id, agent.name, agent.sessionId].includes(terminal)
+
+export const agentState = (agent: AgentEntry | undefined) =>
+  typeof agent?.state === 'string' ? agent.state.toLowerCase() : null
+
+export async function listAgentEntries(device: string | null | undefined, deadline?: number): Promise<AgentEntry[] | null> {
+  const result = await iview.listAgents({ device, retries: 0, deadline })
+  if (!result.success) return null
+  const data = result.data
+  return (Array.isArray(data) ? data : data?.agents || []) as AgentEntry[]
+}
+
+// Reply text starts with ⏺; so do tool calls, which look like "⏺ Bash(npm test)"
+const REPLY_START = /^\s*⏺\s?/
+const TOOL_CALL = /^\s*⏺\s*[A-Za-z][\w.:-]*\(/
+// Lines that end a reply: user input, the prompt box, spinners, tool output, hints
+const CHROME = /^\s*(?:>\s|❯\s|[╭╰│├─┌└]|⎿|[✻✽✶✳✢·*]\s+\w+…|\?\s+for shortcuts|esc to interrupt)/
+
+const isUserInput = (line: string) => /^\s*(?:│\s*)?[>❯]\s+\S/.test(line)
+
+/**
+ * The agent's last reply in cleaned scrollback. While the agent is working
+ * the reply in progress is skipped in favour of the one before the latest
+ * user message.
+ */
+export function extractLastReply(lines: string[], working = false): string | null {
+  let end = lines.length
+  if (working) {
+    for (let i = lines.length - 1; i >= 0; i--) {
+      if (isUserInput(lines[i])) {
+        end = i
+        break
+      }
+    }
+  }
+
+  for (let start = end - 1; start >= 0; start--) {
+    if (!REPLY_START.test(lines[start]) || TOOL_CALL.test(lines[start])) continue
+
+    const reply = [lines[start].replace(REPLY_START, '')]
+    for (let i = start + 1; i < end; i++) {
+      if (REPLY_START.test(lines[i]) || CHROME.test(lines[i])) break
+      // Continuation lines are indented to line up with the text after ⏺
+      reply.push(lines[i].replace(/^ {1,2}/, ''))
+    }
+    const text = reply.join('\n').trim()
+    if (text) return text
+  }
+  return null
+}
+
+// A Claude Code permission dialog near the bottom of the scrollback
+export function findPermissionPrompt(lines: string[]): PermissionPrompt | null {
+  const tail = lines.slice(-PERMISSION_SEARCH_LINES)
+  let questionIndex = -1
+  for (let i = tail.length - 1; i >= 0 && questionIndex === -1; i--) {
+    if (/\bDo you want to\b.*\?/.test(tail[i])) questionIndex = i
+  }
+  if (questionIndex === -1) return null
+
+  const options = tail
+    .slice(questionIndex + 1)
+    .map((line) => line.replace(/^[\s│]*(?:❯\s*)?/, '').replace(/\s*│\s*$/, ''))
+    .filter((line) => /^\d+\.\s+\S/.test(line))
+  if (options.length === 0) return null
+
+  return { question: tail[questionIndex].replace(/^[\s│]*/, '').replace(/\s*│\s*$/, ''), options }
+}
+
+function stateTiming(agent: AgentEntry, key: string, state: string | null) {
+  const reported = [agent.stateSince, agent.stateChangedAt, agent.since].find(
+    (value): value is string => typeof value === 'string' && !Number.isNaN(Date.parse(value))
+  )
+  if (reported) {
+    return { stateSince: reported, timeInStateMs: Date.now() - Date.parse(reported), timeInStateIsEstimate: false }
+  }
+  if (!state) {
+    return { stateSince: null, timeInStateMs: null, timeInStateIsEstimate: true }
+  }
+
+  const observed = observedStates.get(key)
+  const since = observed?.state === state ? observed.since : Date.now()
+  observedStates.set(key, { state, since })
+  return { stateSince: new Date(since).toISOString(), timeInStateMs: Date.now() - since, timeInStateIsEstimate: true }
+}
+
+async function readAgentStatus(device: string | undefined, agent: AgentEntry, terminal: string, deadline: number): Promise<AgentStatus> {
+  const state = agentState(agent)
+  const output = await iview.terminalOutput({ lines: SCROLLBACK_LINES, terminal }, { device, retries: 0, deadline })
+  const lines = output.success ? extractLines(output.data).map(cleanTerminalText) : []
+
+  return {
+    terminal,
+    state,
+    ...stateTiming(agent, `${device || ''}/${terminal}`, state),
+    permissionPrompt: findPermissionPrompt(lines),
+    lastReply: extractLastReply(lines, state === 'working'),
+  }
+}
+
+/**
+ * Status of one agent. Without a terminal the only agent is used; with
+ * waitUntilIdle, polls until the agent is idle, asks for permission, or
+ * has errored or exited.
+ */
+export async function getAgentStatus(options: {
+  device?: string
+  terminal?: string
+  waitUntilIdle?: boolean
+  timeoutMs?: number
+  signal?: AbortSignal
+  // From requestDeadline() when the tool call started (default: now)
+  deadline?: number
+}): Promise<{ status: AgentStatus; waited?: { reason: AgentWaitReason; elapsedMs: number } }> {
+  const { device, waitUntilIdle, signal, deadline = requestDeadline() } = options
+  const startedAt = Date.now()
+  // Reads started before stopAt still have a poll interval before the deadline
+  const stopAt = Math.min(startedAt + (options.timeoutMs ?? DEFAULT_WAIT_TIMEOUT_MS), deadline - POLL_INTERVAL_MS)
+
+  const find = async () => {
+    const agents = await listAgentEntries(device, deadline)
+    if (!agents) {
+      throw new Error(`Could not list agents on ${device || 'the default device'}`)
+    }
+    const agent = options.terminal
+      ? agents.find((entry) => agentMatches(entry, options.terminal as string))
+      : agents.length === 1 ? agents[0] : undefined
+    if (!agent) {
+      const names = agents.map((entry) => String(entry.terminal ?? entry.name ?? entry.id)).join(', ')
+      throw new Error(options.terminal
+        ? `No agent in terminal ${options.terminal}${names ? ` - agents: ${names}` : ''}`
+        : agents.length === 0 ? 'No agents are running' : `Several agents are running (${names}) - pass terminal`)
+    }
+    return { agent, terminal: options.terminal || String(agent.terminal ?? agent.name ?? agent.id) }
+  }
+
+  const read = async () => {
+    const { agent, terminal } = await find()
+    return readAgentStatus(device, agent, terminal, deadline)
+  }
+
+  let status = await read()
+  if (!waitUntilIdle) {
+    return { status }
+  }
+
+  const waitReason = (): AgentWaitReason | null => {
+    if (status.permissionPrompt) return 'permission'
+    if (IDLE_AGENT_STATES.includes(status.state || '')) return 'idle'
+    if (STOPPED_AGENT_STATES.includes(status.state || '')) return 'stopped'
+    if (signal?.aborted) return 'cancelled'
+    return Date.now() >= stopAt ? 'timeout' : null
+  }
+
+  let reason = waitReason()
+  while (!reason) {
+    await sleep(Math.min(POLL_INTERVAL_MS, remainingMs(stopAt)))
+    if (Date.now() < stopAt) status = await read()
+    reason = waitReason()
+  }
+  return { status, waited: { reason, elapsedMs: Date.now() - startedAt } }
+}
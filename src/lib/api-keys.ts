@@ -0,0 +1,407 @@
+/**
+ * Scoped API keys for the MCP endpoint
+ *
+ * Keys map to tool groups, so the voice agent can get a narrower key than
+ * developers. Sources (all optional, merged):
+ *   - MCP_API_KEY:        legacy single key with full access (name "default")
+ *   - MCP_API_KEYS:       JSON array of { name, key | keyHash, groups, expiresAt?, responseStyle? }
+ *   - MCP_API_KEYS_TABLE: Supabase table with columns
+ *                         name, key_hash, groups (text[]), expires_at, revoked_at,
+ *                         and optionally response_style
+ *
+ * Rotation: register the new key under the same name, then let the old one
+ * expire (or revoke it in the table). Both stay valid until then.
+ * keyHash is the hex SHA-256 of the key, so raw keys never need to be stored.
+ */
+
+import { createHash, timingSafeEqual } from 'node:crypto'
+import { getSupabase, isSupabaseConfigured } from './supabase'
+import { RESPONSE_STYLES, type ResponseStyle } from './voice-summary'
+
+// Tool groups a key can be granted. '*' grants every tool.
+export const TOOL_GROUPS: Record<string, string[]> = {
+  utility: ['get_current_time'],
+  'supabase-read': ['supabase_query', 'list_supabase_tables', 'describe_supabase_table'],
+  'supabase-write': ['supabase_insert', 'supabase_update', 'supabase_delete', 'restore_deleted_rows', 'supabase_rpc'],
+  terminal: [
+    'list_devices',
+    'run_terminal_command',
+    'check_command_status',
+    'get_pending_commands',
+    'get_recent_commands',
+    'get_terminal_output',
+    'wait_for_terminal_output',
+    'get_system_health',
+    'get_snapshot',
+    'broadcast_command',
+    'create_terminal_session',
+    'list_terminals',
+    'list_sessions',
+    'delete_session',
+    'get_session_memory',
+  ],
+  agents: ['spawn_claude_mini', 'send_to_agent', 'list_agents', 'get_claude_agent_status', 'dispatch_subtasks', 'check_dispatch_status'],
+  browser: [
+    'navigate_browser',
+    'click_element',
+    'fill_input',
+    'take_screenshot',
+    'get_console_logs',
+    'query_elements',
+    'run_browser_flow',
+  ],
+  memory: ['store_memory', 'recall_memory', 'search_memory', 'forget_memory'],
+  toolkit: [
+    'get_system_toolkit',
+    'get_callable_commands',
+    'get_import_statements',
+    'get_api_reference',
+    'get_cli_reference',
+    'get_cost_reference',
+    'get_pipeline_reference',
+    'lookup_data_path',
+    'refresh_toolkit_cache',
+  ],
+  audit: ['get_audit_log'],
+}
+
+// Resource URI schemes (see mcp-resources), readable with the same group as their tools
+export const RESOURCE_GROUPS: Record<string, string> = {
+  'session-memory': 'terminal',
+  toolkit: 'toolkit',
+  'data-path': 'toolkit',
+  'agent-memory': 'memory',
+}
+
+// Prompts (see mcp-prompts) need every group whose tools they walk through
+export const PROMPT_GROUPS: Record<string, string[]> = {
+  start_coding_agent: ['terminal', 'agents'],
+  diagnose_browser_page: ['browser'],
+  run_pipeline_preset: ['terminal', 'toolkit'],
+}
+
+export interface ApiKeyEntry {
+  name: string
+  keyHash: string
+  groups: string[]
+  expiresAt?: number
+  // Default responseStyle for tool calls made with this key
+  responseStyle?: ResponseStyle
+}
+
+// Mirrors the MCP SDK AuthInfo that mcp-handler reads from req.auth and
+// passes to tool handlers as extra.authInfo
+export interface AuthInfo {
+  token: string
+  clientId: string
+  scopes: string[]
+  expiresAt?: number
+  extra?: Record<string, unknown>
+}
+
+// Shape accepted in MCP_API_KEYS
+interface ApiKeyConfig {
+  name: string
+  key?: string
+  keyHash?: string
+  groups?: string[]
+  expiresAt?: string
+  responseStyle?: string
+}
+
+// Supabase-loaded keys are cached briefly to keep auth off the hot path
+const TABLE_CACHE_TTL_MS = 60 * 1000
+let tableCache: { table: string; loadedAt: number; entries: ApiKeyEntry[] } | null = null
+
+export function hashApiKey(key: string): string {
+  return createHash('sha256').update(key).digest('hex')
+}
+
+function parseExpiry(value: string | null | undefined): number | undefined {
+  if (!value) return undefined
+  const time = Date.parse(value)
+  return Number.isFinite(time) ? time : undefined
+}
+
+function parseResponseStyle(value: unknown): ResponseStyle | undefined {
+  return RESPONSE_STYLES.find((style) => style === value)
+}
+
+function loadEnvKeys(): ApiKeyEntry[] {
+  const entries: ApiKeyEntry[] = []
+
+  const legacyKey = process.env.MCP_API_KEY
+  if (legacyKey) {
+    entries.push({ name: 'default', keyHash: hashApiKey(legacyKey), groups: ['*'] })
+  }
+
+  const raw = process.env.MCP_API_KEYS
+  if (raw) {
+    try {
+      const configs = JSON.parse(raw) as ApiKeyConfig[]
+      for (const config of configs) {
+        const keyHash = config.keyHash?.toLowerCase() || (config.key ? hashApiKey(config.key) : undefined)
+        if (!config.name || !keyHash) {
+          console.error('[MCP] Skipping MCP_API_KEYS entry without name and key/keyHash')
+          continue
+        }
+        entries.push({
+          name: config.name,
+          keyHash,
+          groups: config.groups || [],
+          expiresAt: parseExpiry(config.expiresAt),
+          responseStyle: parseResponseStyle(config.responseStyle),
+        })
+      }
+    } catch (err) {
+      console.error('[MCP] Invalid MCP_API_KEYS JSON - ignoring', err)
+    }
+  }
+
+  return entries
+}
+
+async function loadTableKeys(): Promise<ApiKeyEntry[]> {
+  const table = process.env.MCP_API_KEYS_TABLE
+  if (!table || !isSupabaseConfigured()) {
+    return []
+  }
+
+  if (tableCache && tableCache.table === table && Date.now() - tableCache.loadedAt < TABLE_CACHE_TTL_MS) {
+    return tableCache.entries
+  }
+
+  const { data, error } = await getSupabase()
+    .from(table)
+    // '*' so the optional response_style column can be absent
+    .select('*')
+    .is('revoked_at', null)
+
+  if (error) {
+    console.error(`[MCP] Failed to load API keys from ${table}: ${error.message}`)
+    // Keep serving the last known keys rather than locking everyone out
+    return tableCache?.entries || []
+  }
+
+  const entries = (data || []).map((row) => ({
+    name: row.name as string,
+    keyHash: String(row.key_hash).toLowerCase(),
+    groups: (row.groups as string[] | null) || [],
+    expiresAt: parseExpiry(row.expires_at as string | null),
+    responseStyle: parseResponseStyle(row.response_style),
+  }))
+
+  tableCache = { table, loadedAt: Date.now(), entries }
+  return entries
+}
+
+export async function loadApiKeys(): Promise<ApiKeyEntry[]> {
+  return [...loadEnvKeys(), ...(await loadTableKeys())]
+}
+
+/**
+ * Find the entry for a presented key. Compares SHA-256 digests with
+ * timingSafeEqual and always walks the full list, so response time does not
+ * reveal how close a guess was or which entry matched.
+ */
+export function matchApiKey(providedKey: string, entries: ApiKeyEntry[]): ApiKeyEntry | null {
+  const provided = Buffer.from(hashApiKey(providedKey), 'hex')
+  const now = Date.now()
+  let match: ApiKeyEntry | null = null
+
+  for (const entry of entries) {
+    const expected = Buffer.from(entry.keyHash, 'hex')
+    const equal = expected.length === provided.length && timingSafeEqual(expected, provided)
+    if (equal && !match && (!entry.expiresAt || entry.expiresAt > now)) {
+      match = entry
+    }
+  }
+
+  return match
+}
+
+export function toAuthInfo(entry: ApiKeyEntry, token: string): AuthInfo {
+  return {
+    token,
+    clientId: entry.name,
+    scopes: entry.groups,
+    ...(entry.expiresAt ? { expiresAt: Math.floor(entry.expiresAt / 1000) } : {}),
+    ...(entry.responseStyle ? { extra: { responseStyle: entry.responseStyle } } : {}),
+  }
+}
+
+export function isToolAllowed(toolName: string, groups: string[]): boolean {
+  if (groups.includes('*')) {
+    return true
+  }
+  return groups.some((group) => TOOL_GROUPS[group]?.includes(toolName))
+}
+
+export function isResourceAllowed(uri: string, groups: string[]): boolean {
+  if (groups.includes('*')) {
+    return true
+  }
+  const scheme = uri.match(/^([a-z][\w+.-]*):/i)?.[1]
+  return Boolean(scheme && groups.includes(RESOURCE_GROUPS[scheme]))
+}
+
+export function isPromptAllowed(promptName: string, groups: string[]): boolean {
+  if (groups.includes('*')) {
+    return true
+  }
+  const required = PROMPT_GROUPS[promptName]
+  return Boolean(required && required.every((group) => groups.includes(group)))
+}
+
+interface JsonRpcMessage {
+  jsonrpc?: string
+  id?: string | number | null
+  method?: string
+  params?: { name?: string; uri?: string }
+  result?: {
+    tools?: { name: string }[]
+    resources?: { uri: string }[]
+    resourceTemplates?: { uriTemplate: string }[]
+    prompts?: { name: string }[]
+  }
+}
+
+/**
+ * Return the first tools/call in a JSON-RPC payload (single or batch) that
+ * the given groups may not use.
+ */
+export function findForbiddenToolCall(
+  payload: unknown,
+  groups: string[]
+): { id: string | number | null; tool: string } | null {
+  const messages = (Array.isArray(payload) ? payload : [payload]) as JsonRpcMessage[]
+  for (const message of messages) {
+    if (message?.method === 'tools/call' && typeof message.params?.name === 'string') {
+      if (!isToolAllowed(message.params.name, groups)) {
+        return { id: message.id ?? null, tool: message.params.name }
+      }
+    }
+  }
+  return null
+}
+
+/**
+ * Return the first resources/read, resources/subscribe or prompts/get in a
+ * JSON-RPC payload that the given groups may not use.
+ */
+export function findForbiddenRead(
+  payload: unknown,
+  groups: string[]
+): { id: string | number | null; kind: 'resource' | 'prompt'; name: string } | null {
+  const messages = (Array.isArray(payload) ? payload : [payload]) as JsonRpcMessage[]
+  for (const message of messages) {
+    const isRead = message?.method === 'resources/read' || message?.method === 'resources/subscribe'
+    if (isRead && typeof message.params?.uri === 'string' && !isResourceAllowed(message.params.uri, groups)) {
+      return { id: message.id ?? null, kind: 'resource', name: message.params.uri }
+    }
+    if (message?.method === 'prompts/get' && typeof message.params?.name === 'string' && !isPromptAllowed(message.params.name, groups)) {
+      return { id: message.id ?? null, kind: 'prompt', name: message.params.name }
+    }
+  }
+  return null
+}
+
+function filterListInMessage(message: JsonRpcMessage, groups: string[]): JsonRpcMessage {
+  const result = message?.result
+  if (!result) {
+    return message
+  }
+  return {
+    ...message,
+    result: {
+      ...result,
+      ...(Array.isArray(result.tools) ? { tools: result.tools.filter((tool) => isToolAllowed(tool.name, groups)) } : {}),
+      ...(Array.isArray(result.resources)
+        ? { resources: result.resources.filter((resource) => isResourceAllowed(resource.uri, groups)) }
+        : {}),
+      ...(Array.isArray(result.resourceTemplates)
+        ? { resourceTemplates: result.resourceTemplates.filter((template) => isResourceAllowed(template.uriTemplate, groups)) }
+        : {}),
+      ...(Array.isArray(result.prompts) ? { prompts: result.prompts.filter((prompt) => isPromptAllowed(prompt.name, groups)) } : {}),
+    },
+  }
+}
+
+// One line of an SSE body; data lines carrying a list result are filtered
+function filterSseLine(line: string, groups: string[]): string {
+  if (!line.startsWith('data:')) return line
+  try {
+    const message = JSON.parse(line.slice(5).trim()) as JsonRpcMessage
+    return `data: ${JSON.stringify(filterListInMessage(message, groups))}`
+  } catch {
+    return line
+  }
+}
+
+/**
+ * Remove tools, resources and prompts outside the key's groups from a
+ * tools/list, resources/list, resources/templates/list or prompts/list
+ * response. Handles both plain JSON and the SSE framing used by the
+ * streamable HTTP transport.
+ */
+export async function filterListResponse(response: Response, groups: string[]): Promise<Response> {
+  const body = await response.text()
+  const contentType = response.headers.get('content-type') || ''
+
+  let filtered = body
+  if (contentType.includes('text/event-stream')) {
+    filtered = body
+      .split('\n')
+      .map((line) => filterSseLine(line, groups))
+      .join('\n')
+  } else if (contentType.includes('application/json')) {
+    try {
+      const payload = JSON.parse(body) as JsonRpcMessage | JsonRpcMessage[]
+      filtered = JSON.stringify(
+        Array.isArray(payload)
+          ? payload.map((message) => filterListInMessage(message, groups))
+          : filterListInMessage(payload, groups)
+      )
+    } catch {
+      // Not JSON after all - pass through untouched
+    }
+  }
+
+  const headers = new Headers(response.headers)
+  headers.delete('content-length')
+  return new Response(filtered, { status: response.status, statusText: response.statusText, headers })
+}
+
+/**
+ * The same filtering for a long-lived event stream. Over the SSE transport
+ * list results arrive on the GET stream rather than in the POST's response,
+ * so every complete line is filtered as it passes through.
+ */
+export function filterListStream(response: Response, groups: string[]): Response {
+  if (!response.body) {
+    return response
+  }
+
+  const decoder = new TextDecoder()
+  const encoder = new TextEncoder()
+  // Text after the last newline seen, held until its line is complete
+  let pending = ''
+  const filter = new TransformStream<Uint8Array, Uint8Array>({
+    transform(chunk, controller) {
+      pending += decoder.decode(chunk, { stream: true })
+      const end = pending.lastIndexOf('\n') + 1
+      if (end === 0) return
+      const lines = pending.slice(0, end).split('\n').map((line) => filterSseLine(line, groups))
+      controller.enqueue(encoder.encode(lines.join('\n')))
+      pending = pending.slice(end)
+    },
+    flush(controller) {
+      pending += decoder.decode()
+      if (pending) controller.enqueue(encoder.encode(filterSseLine(pending, groups)))
+    },
+  })
+
+  const headers = new Headers(response.headers)
+  headers.delete('content-length')
+  return new Response(response.body.pipeThrough(filter), { status: response.status, statusText: response.statusText, headers })
+}
@@ -0,0 +1,303 @@
+/**
+ * Audit log of every MCP tool invocation
+ *
+ * auditToolCalls() wraps server.tool so each handler records: tool name,
+ * redacted arguments, caller (API key name), duration, outcome and a
+ * truncated result. Records go to Supabase (MCP_AUDIT_TABLE, default
+ * "mcp_audit_log") when configured, otherwise - or if the insert fails -
+ * to a local JSONL file (MCP_AUDIT_LOG_PATH). The write is not awaited, so
+ * it adds no round trip to the call; failures are only logged. Queries
+ * against the local file read it backwards from the end, only as far as
+ * the requested number of records.
+ *
+ * Arguments are redacted by key name (token, password, ...), by the output
+ * sanitizer's secret rules for every string, and browser fill values are
+ * always dropped.
+ */
+
+import { randomUUID } from 'node:crypto'
+import { appendFile, open, type FileHandle } from 'node:fs/promises'
+import { tmpdir } from 'node:os'
+import { join } from 'node:path'
+import type { createMcpHandler } from 'mcp-handler'
+import { sanitizeOutput } from './output-sanitizer'
+import { getSupabase, isSupabaseConfigured } from './supabase'
+
+type McpServer = Parameters<Parameters<typeof createMcpHandler>[0]>[0]
+
+export interface AuditRecord {
+  id: string
+  tool: string
+  args: unknown
+  caller: string
+  session_id: string | null
+  started_at: string
+  duration_ms: number
+  success: boolean
+  result: string | null
+  error: string | null
+}
+
+export interface AuditQuery {
+  tool?: string
+  caller?: string
+  since?: string
+  until?: string
+  outcome?: 'success' | 'error' | 'all'
+  limit?: number
+}
+
+const MAX_RESULT_CHARS = 2000
+const MAX_ARG_STRING_CHARS = 500
+const REDACTED = '[REDACTED]'
+
+// Bytes read per step when scanning the local log from its end
+const TAIL_CHUNK_BYTES = 64 * 1024
+const NEWLINE = 0x0a
+
+// Argument names whose values never belong in the log
+const SENSITIVE_ARG = /(token|secret|password|passwd|api[_-]?key|authorization|cookie|credential)s?$/i
+
+const getAuditTable = () => process.env.MCP_AUDIT_TABLE || 'mcp_audit_log'
+const getAuditLogPath = () => process.env.MCP_AUDIT_LOG_PATH || join(tmpdir(), 'mahana-mcp-audit.jsonl')
+
+export function redactArgs(value: unknown, depth = 0): unknown {
+  if (depth > 6) {
+    return '[…]'
+  }
+  if (typeof value === 'string') {
+    // Secrets inside values (export API_KEY=..., pasted keys), same rules as tool output
+    const clean = sanitizeOutput(value).value
+    return clean.length > MAX_ARG_STRING_CHARS
+      ? `${clean.slice(0, MAX_ARG_STRING_CHARS)}… (${clean.length} chars)`
+      : clean
+  }
+  if (Array.isArray(value)) {
+    return value.map((item) => redactArgs(item, depth + 1))
+  }
+  if (value && typeof value === 'object') {
+    return Object.fromEntries(
+      Object.entries(value).map(([key, item]) => [
+        key,
+        SENSITIVE_ARG.test(key) ? REDACTED : redactArgs(item, depth + 1),
+      ])
+    )
+  }
+  return value
+}
+
+// Text typed into pages is often a password, so it is never logged
+function redactFillValues(tool: string, args: unknown): unknown {
+  if (!args || typeof args !== 'object') {
+    return args
+  }
+  const record = args as Record<string, unknown>
+  if (tool === 'fill_input' && 'value' in record) {
+    return { ...record, value: REDACTED }
+  }
+  if (tool === 'run_browser_flow' && Array.isArray(record.steps)) {
+    return {
+      ...record,
+      steps: record.steps.map((step) =>
+        step && typeof step === 'object' && (step as { action?: unknown }).action === 'fill'
+          ? { ...step, value: REDACTED }
+          : step
+      ),
+    }
+  }
+  return args
+}
+
+// Keep only the text parts of a tool result, trimmed to a loggable size
+function summarizeResult(result: unknown): string | null {
+  const content = (result as { content?: { type: string; text?: string }[] })?.content
+  if (!Array.isArray(content)) {
+    return null
+  }
+  const text = content
+    .map((part) => (part.type === 'text' ? part.text ?? '' : `[${part.type}]`))
+    .join('\n')
+  return text.length > MAX_RESULT_CHARS ? `${text.slice(0, MAX_RESULT_CHARS)}… (${text.length} chars)` : text
+}
+
+async function appendLocal(record: AuditRecord) {
+  await appendFile(getAuditLogPath(), `${JSON.stringify(record)}\n`, 'utf8')
+}
+
+export async function writeAuditRecord(record: AuditRecord): Promise<void> {
+  try {
+    if (isSupabaseConfigured()) {
+      const { error } = await getSupabase().from(getAuditTable()).insert(record)
+      if (!error) {
+        return
+      }
+      console.error(`[MCP] Audit insert failed, using local log: ${error.message}`)
+    }
+    await appendLocal(record)
+  } catch (err) {
+    // Auditing must never break the tool call itself
+    console.error('[MCP] Failed to write audit record', err)
+  }
+}
+
+/**
+ * Wrap every tool registered on this server with audit logging.
+ * Call before registering tools.
+ */
+export function auditToolCalls(server: McpServer) {
+  const register = server.tool.bind(server) as (...args: unknown[]) => unknown
+
+  server.tool = ((...args: unknown[]) => {
+    const name = args[0] as string
+    const handler = args[args.length - 1] as (...handlerArgs: unknown[]) => Promise<unknown>
+
+    args[args.length - 1] = async (...handlerArgs: unknown[]) => {
+      // Handlers get (args, extra), or just (extra) for tools without a schema
+      const extra = handlerArgs[handlerArgs.length - 1] as {
+        authInfo?: { clientId?: string }
+        sessionId?: string
+      }
+      const toolArgs = handlerArgs.length > 1 ? handlerArgs[0] : {}
+      const startedAt = new Date()
+
+      let result: unknown
+      let thrown: unknown
+      try {
+        result = await handler(...handlerArgs)
+      } catch (err) {
+        thrown = err
+      }
+
+      const isError = thrown !== undefined || Boolean((result as { isError?: boolean })?.isError)
+      const summary = summarizeResult(result)
+
+      // Not awaited: writeAuditRecord never throws and logs its own failures
+      void writeAuditRecord({
+        id: randomUUID(),
+        tool: name,
+        args: redactArgs(redactFillValues(name, toolArgs)),
+        caller: extra?.authInfo?.clientId || 'anonymous',
+        session_id: extra?.sessionId || null,
+        started_at: startedAt.toISOString(),
+        duration_ms: Date.now() - startedAt.getTime(),
+        success: !isError,
+        result: summary,
+        error: thrown !== undefined
+          ? (thrown instanceof Error ? thrown.message : String(thrown))
+          : (isError ? summary : null),
+      })
+
+      if (thrown !== undefined) {
+        throw thrown
+      }
+      return result
+    }
+
+    return register(...args)
+  }) as typeof server.tool
+}
+
+function matchesQuery(record: AuditRecord, query: AuditQuery): boolean {
+  if (query.tool && record.tool !== query.tool) return false
+  if (query.caller && record.caller !== query.caller) return false
+  if (query.since && record.started_at < query.since) return false
+  if (query.until && record.started_at > query.until) return false
+  if (query.outcome === 'success' && !record.success) return false
+  if (query.outcome === 'error' && record.success) return false
+  return true
+}
+
+// Newest first: reads the file backwards a chunk at a time until `limit` records match
+async function queryLocal(query: AuditQuery, limit: number): Promise<AuditRecord[]> {
+  let file: FileHandle
+  try {
+    file = await open(getAuditLogPath(), 'r')
+  } catch {
+    return []
+  }
+
+  const records: AuditRecord[] = []
+  const collect = (line: Buffer) => {
+    const text = line.toString('utf8')
+    if (!text.trim()) return
+    try {
+      const record = JSON.parse(text) as AuditRecord
+      if (matchesQuery(record, query)) {
+        records.push(record)
+      }
+    } catch {
+      // Skip partially written lines
+    }
+  }
+
+  try {
+    let position = (await file.stat()).size
+    // Start of a line whose beginning is in an earlier chunk
+    let carry = Buffer.alloc(0)
+    while (position > 0 && records.length < limit) {
+      const size = Math.min(TAIL_CHUNK_BYTES, position)
+      position -= size
+      const chunk = Buffer.alloc(size)
+      await file.read(chunk, 0, size, position)
+
+      const buffer = Buffer.concat([chunk, carry])
+      let end = buffer.length
+      while (end > 0 && records.length < limit) {
+        const start = buffer.lastIndexOf(NEWLINE, end - 1)
+        if (start === -1) break
+        collect(buffer.subarray(start + 1, end))
+        end = start
+      }
+      carry = buffer.subarray(0, end)
+    }
+    if (position === 0 && records.length < limit) {
+      collect(carry)
+    }
+  } finally {
+    await file.close()
+  }
+
+  return records.slice(0, limit)
+}
+
+function toIsoTimestamp(value: string | undefined, label: string): string | undefined {
+  if (!value) return undefined
+  const time = Date.parse(value)
+  if (!Number.isFinite(time)) {
+    throw new Error(`Invalid ${label} timestamp: ${value}`)
+  }
+  return new Date(time).toISOString()
+}
+
+// Newest first
+export async function queryAuditLog(filters: AuditQuery = {}): Promise<{ source: 'supabase' | 'local'; records: AuditRecord[] }> {
+  const limit = Math.min(filters.limit || 50, 500)
+  const query: AuditQuery = {
+    ...filters,
+    since: toIsoTimestamp(filters.since, 'since'),
+    until: toIsoTimestamp(filters.until, 'until'),
+  }
+
+  if (isSupabaseConfigured()) {
+    let builder = getSupabase()
+      .from(getAuditTable())
+      .select('*')
+      .order('started_at', { ascending: false })
+      .limit(limit)
+
+    if (query.tool) builder = builder.eq('tool', query.tool)
+    if (query.caller) builder = builder.eq('caller', query.caller)
+    if (query.since) builder = builder.gte('started_at', query.since)
+    if (query.until) builder = builder.lte('started_at', query.until)
+    if (query.outcome === 'success') builder = builder.eq('success', true)
+    if (query.outcome === 'error') builder = builder.eq('success', false)
+
+    const { data, error } = await builder
+    if (!error) {
+      return { source: 'supabase', records: (data || []) as AuditRecord[] }
+    }
+    console.error(`[MCP] Audit query failed, reading local log: ${error.message}`)
+  }
+
+  return { source: 'local', records: await queryLocal(query, limit) }
+}
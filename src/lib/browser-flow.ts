@@ -0,0 +1,235 @@
+/**
+ * Scripted browser flows
+ *
+ * run_browser_flow runs an ordered list of steps against i-View's webview in
+ * one tool call instead of one round trip per action:
+ *   navigate, click, fill, wait_for (a selector, optionally with text),
+ *   assert_text, assert_count, screenshot
+ * The flow stops at the first failing step; later steps are reported as
+ * skipped. Each step gets its own timing, and console errors logged while
+ * the flow ran are returned with the results.
+ */
+
+import { z } from 'zod'
+import { iview } from './iview-client'
+import { remainingMs, requestDeadline } from './request-deadline'
+
+const label = z.string().optional().describe('Name for this step in the results')
+
+export const browserFlowStep = z.discriminatedUnion('action', [
+  z.object({ action: z.literal('navigate'), url: z.string().describe('URL to navigate to'), label }),
+  z.object({
+    action: z.literal('click'),
+    selector: z.string().optional().describe('CSS selector to click'),
+    text: z.string().optional().describe('Text content to find and click'),
+    label,
+  }),
+  z.object({
+    action: z.literal('fill'),
+    selector: z.string().describe('CSS selector for the input'),
+    value: z.string().describe('Value to fill'),
+    label,
+  }),
+  z.object({
+    action: z.literal('wait_for'),
+    selector: z.string().describe('CSS selector to wait for'),
+    text: z.string().optional().describe('Only count elements containing this text'),
+    timeout: z.number().optional().describe('Give up after this many ms (default: 10000)'),
+    label,
+  }),
+  z.object({
+    action: z.literal('assert_text'),
+    text: z.string().describe('Text that must appear'),
+    selector: z.string().optional().describe('Where to look (default: body)'),
+    label,
+  }),
+  z.object({
+    action: z.literal('assert_count'),
+    selector: z.string().describe('CSS selector to count'),
+    count: z.number().optional().describe('Exact number of matches'),
+    min: z.number().optional().describe('At least this many matches'),
+    max: z.number().optional().describe('At most this many matches'),
+    label,
+  }),
+  z.object({
+    action: z.literal('screenshot'),
+    preset: z.enum(['fast', 'balanced', 'thumbnail', 'quality']).optional().describe('Screenshot preset (default: fast)'),
+    label,
+  }),
+])
+
+export type BrowserFlowStep = z.infer<typeof browserFlowStep>
+
+export interface StepResult {
+  index: number
+  action: BrowserFlowStep['action']
+  label: string | null
+  status: 'passed' | 'failed' | 'skipped'
+  durationMs: number
+  error?: string
+  // Screenshot for screenshot steps, matches for wait_for / assert_count
+  data?: unknown
+}
+
+export interface BrowserFlowResult {
+  success: boolean
+  failedStep: number | null
+  steps: StepResult[]
+  consoleErrors: unknown[]
+  durationMs: number
+}
+
+export const MAX_FLOW_STEPS = 50
+
+const DEFAULT_WAIT_TIMEOUT_MS = 10_000
+const WAIT_POLL_INTERVAL_MS = 250
+const MAX_ELEMENTS = 500
+// Kept back from the steps for reading console errors at the end
+const CONSOLE_READ_RESERVE_MS = 2000
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms))
+
+// i-View element entries carry their text under one of these names
+function elementText(element: unknown): string {
+  if (typeof element === 'string') return element
+  const entry = element as { text?: unknown; innerText?: unknown; textContent?: unknown } | null
+  const text = entry?.text ?? entry?.innerText ?? entry?.textContent
+  return typeof text === 'string' ? text : ''
+}
+
+async function queryElements(selector: string, device: string | undefined, deadline: number): Promise<unknown[]> {
+  const result = await iview.elements({ selector, limit: MAX_ELEMENTS }, { device, deadline })
+  if (!result.success) {
+    throw new Error(result.error || 'Element query failed')
+  }
+  const data = result.data
+  return Array.isArray(data) ? data : data?.elements || []
+}
+
+async function consoleErrors(device: string | undefined, deadline: number): Promise<unknown[]> {
+  const result = await iview.consoleLogs({ level: 'error' }, { device, retries: 0, deadline })
+  if (!result.success) return []
+  const data = result.data
+  return Array.isArray(data) ? data : data?.logs || []
+}
+
+// Entries in `after` beyond those already in `before` (the log is a rolling buffer)
+function newEntries(before: unknown[], after: unknown[]): unknown[] {
+  const seen = new Map<string, number>()
+  for (const entry of before) {
+    const key = JSON.stringify(entry)
+    seen.set(key, (seen.get(key) || 0) + 1)
+  }
+  return after.filter((entry) => {
+    const key = JSON.stringify(entry)
+    const count = seen.get(key) || 0
+    if (count === 0) return true
+    seen.set(key, count - 1)
+    return false
+  })
+}
+
+async function runStep(step: BrowserFlowStep, device: string | undefined, deadline: number): Promise<unknown> {
+  const check = <T>(result: { success: boolean; data?: T; error?: string }) => {
+    if (!result.success) throw new Error(result.error || 'Unknown error')
+    return result.data
+  }
+
+  switch (step.action) {
+    case 'navigate':
+      check(await iview.navigate({ url: step.url }, { device, deadline }))
+      return undefined
+    case 'click':
+      check(await iview.click({ selector: step.selector, text: step.text }, { device, deadline }))
+      return undefined
+    case 'fill':
+      check(await iview.fill({ selector: step.selector, value: step.value }, { device, deadline }))
+      return undefined
+    case 'screenshot':
+      return check(await iview.screenshot({ preset: step.preset || 'fast' }, { device, deadline }))
+
+    case 'wait_for': {
+      const until = Math.min(Date.now() + (step.timeout ?? DEFAULT_WAIT_TIMEOUT_MS), deadline)
+      while (true) {
+        const elements = await queryElements(step.selector, device, deadline)
+        const matches = step.text ? elements.filter((element) => elementText(element).includes(step.text as string)) : elements
+        if (matches.length > 0) return { matches: matches.length }
+        if (Date.now() + WAIT_POLL_INTERVAL_MS >= until) {
+          throw new Error(`${step.selector}${step.text ? ` containing "${step.text}"` : ''} did not appear in time`)
+        }
+        await sleep(WAIT_POLL_INTERVAL_MS)
+      }
+    }
+
+    case 'assert_text': {
+      const selector = step.selector || 'body'
+      const elements = await queryElements(selector, device, deadline)
+      if (!elements.some((element) => elementText(element).includes(step.text))) {
+        throw new Error(`"${step.text}" not found in ${selector}`)
+      }
+      return undefined
+    }
+
+    case 'assert_count': {
+      const count = (await queryElements(step.selector, device, deadline)).length
+      const { count: exact, min, max } = step
+      if ((exact !== undefined && count !== exact) || (min !== undefined && count < min) || (max !== undefined && count > max)) {
+        const expected = exact !== undefined ? `${exact}` : [min !== undefined && `at least ${min}`, max !== undefined && `at most ${max}`].filter(Boolean).join(' and ')
+        throw new Error(`Expected ${expected} ${step.selector}, found ${count}`)
+      }
+      return { count }
+    }
+  }
+}
+
+/**
+ * Run steps in order until one fails, the tool call's deadline comes up or
+ * the request is cancelled.
+ */
+export async function runBrowserFlow(options: {
+  steps: BrowserFlowStep[]
+  device?: string
+  signal?: AbortSignal
+  // From requestDeadline() when the tool call started (default: now)
+  deadline?: number
+}): Promise<BrowserFlowResult> {
+  const { steps, device, signal, deadline = requestDeadline() } = options
+  const startedAt = Date.now()
+  const stepDeadline = deadline - CONSOLE_READ_RESERVE_MS
+  const baseline = await consoleErrors(device, stepDeadline)
+
+  const results: StepResult[] = []
+  let failedStep: number | null = null
+
+  for (const [index, step] of steps.entries()) {
+    const base = { index, action: step.action, label: step.label || null }
+    if (failedStep !== null) {
+      results.push({ ...base, status: 'skipped', durationMs: 0 })
+      continue
+    }
+
+    const stepStartedAt = Date.now()
+    try {
+      if (signal?.aborted) throw new Error('Cancelled')
+      if (remainingMs(stepDeadline) <= 0) throw new Error('Flow ran out of time')
+      const data = await runStep(step, device, stepDeadline)
+      results.push({ ...base, status: 'passed', durationMs: Date.now() - stepStartedAt, ...(data !== undefined ? { data } : {}) })
+    } catch (err) {
+      failedStep = index
+      results.push({
+        ...base,
+        status: 'failed',
+        durationMs: Date.now() - stepStartedAt,
+        error: err instanceof Error ? err.message : 'Unknown error',
+      })
+    }
+  }
+
+  return {
+    success: failedStep === null,
+    failedStep,
+    steps: results,
+    consoleErrors: newEntries(baseline, await consoleErrors(device, deadline)),
+    durationMs: Date.now() - startedAt,
+  }
+}
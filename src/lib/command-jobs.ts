@@ -0,0 +1,401 @@
+/**
+ * Asynchronous terminal command jobs
+ *
+ * run_terminal_command submits a job and returns its ID right away. The
+ * command is sent to i-View with an exit marker appended:
+ *
+ *   npm run build; printf '\n__MCP_JOB_<id>_EXIT:%s\n' "$?"
+ *
+ * (fish devices, `shell: "fish"` in MCP_DEVICES, get $status instead of $?).
+ * Status checks read the terminal scrollback and look for that marker, so
+ * any server instance can tell whether a job finished and with which exit
+ * code. Commands the marker would break - several lines, heredocs, a
+ * trailing comment, & or pipe, unbalanced quotes - run untracked instead.
+ * So does anything sent while the terminal is not idle at a shell prompt,
+ * since it is input for a program (a [y/N] answer, a REPL line, a
+ * password) rather than a shell command. Job records are kept in Supabase
+ * (MCP_JOBS_TABLE, default "mcp_command_jobs") when configured, otherwise
+ * in memory.
+ *
+ * States: queued -> running -> completed | timed_out, or failed when i-View
+ * rejected the command. Untracked jobs (no marker) complete as soon as
+ * i-View accepts them.
+ */
+
+import { randomUUID } from 'node:crypto'
+import { resolveDevice } from './devices'
+import { iview } from './iview-client'
+import { remainingMs, requestDeadline } from './request-deadline'
+import { getSupabase, isSupabaseConfigured } from './supabase'
+
+export type JobStatus = 'queued' | 'running' | 'completed' | 'timed_out' | 'failed'
+
+export interface CommandJob {
+  id: string
+  command: string
+  // Registered i-View device (null = default machine)
+  device: string | null
+  terminal: string | null
+  status: JobStatus
+  exit_code: number | null
+  output: string[]
+  error: string | null
+  tracked: boolean
+  caller: string
+  submitted_at: string
+  started_at: string | null
+  finished_at: string | null
+  timeout_at: string
+}
+
+const ACTIVE_STATUSES: JobStatus[] = ['queued', 'running']
+
+// Jobs without an exit marker after this long are considered timed out
+const DEFAULT_JOB_TIMEOUT_SECONDS = 15 * 60
+
+// Scrollback read when looking for a job's output and exit marker
+const SCROLLBACK_LINES = 500
+
+const MAX_STORED_OUTPUT_LINES = 200
+
+// Added on top of `wait` for the /quick/run request timeout
+const IVIEW_RESPONSE_MARGIN_MS = 10_000
+
+// Terminal states in which a shell can be waiting for a command
+const SHELL_READY_STATES = ['idle', 'sleeping']
+// Lines read to find the terminal's current prompt
+const PROMPT_CHECK_LINES = 5
+
+// Shell prompts: "user@host dir $ cmd", "% cmd", "❯ cmd", "➜  dir cmd", "# cmd"
+const DEFAULT_PROMPT_PATTERN = /(?:^|\s)(?:[$%#❯➜»])\s+\S/
+
+// In-memory fallback, capped so a long-lived instance doesn't grow forever
+const MAX_MEMORY_JOBS = 200
+const memoryJobs = new Map<string, CommandJob>()
+
+const getJobsTable = () => process.env.MCP_JOBS_TABLE || 'mcp_command_jobs'
+
+// Short, shell-safe ID that is easy to read back by voice
+const newJobId = () => randomUUID().replace(/-/g, '').slice(0, 12)
+
+const exitMarker = (id: string) => `__MCP_JOB_${id}_EXIT:`
+
+type TerminalList = unknown[] | { terminals?: unknown[] }
+
+export function getPromptPattern(): RegExp {
+  const custom = process.env.MCP_PROMPT_PATTERN
+  if (custom) {
+    try {
+      return new RegExp(custom)
+    } catch {
+      console.error('[MCP] Invalid MCP_PROMPT_PATTERN - using the default prompt pattern')
+    }
+  }
+  return DEFAULT_PROMPT_PATTERN
+}
+
+// The state of one terminal, matched by id, name or session ID
+export function findTerminalState(list: TerminalList | undefined, terminal: string | null): string | null {
+  const terminals = (Array.isArray(list) ? list : list?.terminals || []) as Record<string, unknown>[]
+  const entry = terminal
+    ? terminals.find((t) => [t.id, t.name, t.sessionId].includes(terminal))
+    : terminals.find((t) => t.active === true || t.isActive === true)
+  return typeof entry?.state === 'string' ? entry.state : null
+}
+
+/**
+ * Whether the terminal is idle at a shell prompt, so the marker reaches
+ * the shell. The prompt pattern matches a prompt followed by a command, so
+ * the bare prompt line is tested with a stand-in command after it.
+ */
+async function atShellPrompt(device: string | undefined, terminal: string | undefined, deadline: number): Promise<boolean> {
+  const [terminals, output] = await Promise.all([
+    iview.listTerminals({ device, retries: 0, deadline }),
+    iview.terminalOutput({ lines: PROMPT_CHECK_LINES, terminal }, { device, retries: 0, deadline }),
+  ])
+  const state = terminals.success ? findTerminalState(terminals.data, terminal || null) : null
+  if (state && !SHELL_READY_STATES.includes(state)) {
+    return false
+  }
+  const prompt = output.success ? [...extractLines(output.data)].reverse().find((line) => line.trim()) : undefined
+  return prompt !== undefined && getPromptPattern().test(`${prompt.trimEnd()} x`)
+}
+
+/**
+ * Why appending the exit marker to a command would break it, or null when
+ * it is safe. The marker goes after a `;` on the same line, so it must not
+ * end up as input, quoted, commented out or behind an incomplete command.
+ */
+export function trackingProblem(command: string): string | null {
+  const trimmed = command.trim()
+  if (/[\r\n]/.test(trimmed)) {
+    return 'spans several lines'
+  }
+
+  let quote: string | null = null
+  for (let i = 0; i < trimmed.length; i++) {
+    const char = trimmed[i]
+    if (quote === "'") {
+      if (char === "'") quote = null
+    } else if (char === '\\') {
+      i++
+    } else if (quote === '"') {
+      if (char === '"') quote = null
+    } else if (char === "'" || char === '"') {
+      quote = char
+    } else if (char === '#' && (i === 0 || /[\s;&|(]/.test(trimmed[i - 1]))) {
+      return 'ends in a comment'
+    } else if (char === '<' && trimmed[i + 1] === '<' && trimmed[i + 2] !== '<' && trimmed[i - 1] !== '<') {
+      return 'contains a heredoc'
+    }
+  }
+
+  if (quote) {
+    return 'has an unclosed quote'
+  }
+  if (/(^|[^\\])\\$/.test(trimmed)) {
+    return 'ends in a line continuation'
+  }
+  if (/(^|[^&\\])&$/.test(trimmed)) {
+    return 'runs in the background'
+  }
+  if (/(^|[^\\])(\|\||&&|\|)$/.test(trimmed)) {
+    return 'is incomplete'
+  }
+  return null
+}
+
+// Why submitJob left a command untracked although tracking was asked for
+export function untrackedReason(command: string): string {
+  const problem = trackingProblem(command)
+  return problem ? `the command ${problem}` : 'the terminal was not idle at a shell prompt'
+}
+
+// Only call for commands trackingProblem() accepts
+export function wrapCommand(command: string, id: string, shell?: string): string {
+  // A trailing ; would become ";;"
+  const body = command.trim().replace(/\s*;+$/, '')
+  const status = shell === 'fish' ? '$status' : '$?'
+  return `${body}; printf '\\n${exitMarker(id)}%s\\n' "${status}"`
+}
+
+// The marker's printf output line, and the printf appended to the echoed command
+const MARKER_OUTPUT_LINE = /^\s*__MCP_JOB_\w+_EXIT:\d*\s*$/
+const MARKER_SUFFIX = /;\s*printf '\\n__MCP_JOB_.*$/
+
+// What the marker adds to the terminal is noise for the caller; the echoed command stays
+export function stripMarkerLines(lines: string[]): string[] {
+  return lines
+    .filter((line) => !MARKER_OUTPUT_LINE.test(line))
+    .map((line) => line.replace(MARKER_SUFFIX, ''))
+}
+
+// i-View returns output either as a line array or as one string
+export function extractLines(data: unknown): string[] {
+  const output = (data as { output?: unknown; lines?: unknown } | undefined)?.output
+    ?? (data as { lines?: unknown } | undefined)?.lines
+  if (Array.isArray(output)) {
+    return output.map(String)
+  }
+  if (typeof output === 'string') {
+    return output.split('\n')
+  }
+  return []
+}
+
+/**
+ * Find a job's output and exit code in terminal scrollback. Output is
+ * everything between the echoed command line and the exit marker.
+ */
+export function parseJobOutput(lines: string[], id: string): { output: string[]; exitCode: number | null } {
+  const marker = exitMarker(id)
+  const exitPattern = new RegExp(`${marker}(\\d+)`)
+
+  let exitIndex = -1
+  let exitCode: number | null = null
+  let commandIndex = -1
+  for (let i = 0; i < lines.length; i++) {
+    const match = lines[i].match(exitPattern)
+    if (match) {
+      exitIndex = i
+      exitCode = Number(match[1])
+    } else if (lines[i].includes(marker) && exitIndex === -1) {
+      commandIndex = i
+    }
+  }
+
+  const end = exitIndex === -1 ? lines.length : exitIndex
+  const output = stripMarkerLines(lines.slice(commandIndex + 1, end))
+  return { output: output.slice(-MAX_STORED_OUTPUT_LINES), exitCode }
+}
+
+async function saveJob(job: CommandJob): Promise<void> {
+  if (isSupabaseConfigured()) {
+    const { error } = await getSupabase().from(getJobsTable()).upsert(job, { onConflict: 'id' })
+    if (!error) {
+      return
+    }
+    console.error(`[MCP] Job store upsert failed, keeping job in memory: ${error.message}`)
+  }
+
+  memoryJobs.set(job.id, job)
+  if (memoryJobs.size > MAX_MEMORY_JOBS) {
+    const oldest = memoryJobs.keys().next().value
+    if (oldest) memoryJobs.delete(oldest)
+  }
+}
+
+// Jobs record the registered name, so a tag used at submit time still matches later
+async function deviceName(nameOrTag?: string): Promise<string | null> {
+  if (!nameOrTag) return null
+  return (await resolveDevice(nameOrTag))?.name || nameOrTag
+}
+
+export async function getJob(id: string): Promise<CommandJob | null> {
+  if (memoryJobs.has(id)) {
+    return memoryJobs.get(id) || null
+  }
+  if (isSupabaseConfigured()) {
+    const { data, error } = await getSupabase().from(getJobsTable()).select('*').eq('id', id).maybeSingle()
+    if (!error && data) {
+      return data as CommandJob
+    }
+  }
+  return null
+}
+
+export async function listJobs(options: { active?: boolean; terminal?: string; device?: string; limit?: number } = {}): Promise<CommandJob[]> {
+  const limit = Math.min(options.limit || 20, 100)
+  const device = await deviceName(options.device)
+
+  let jobs: CommandJob[] = [...memoryJobs.values()]
+  if (isSupabaseConfigured()) {
+    let query = getSupabase().from(getJobsTable()).select('*').order('submitted_at', { ascending: false }).limit(limit)
+    if (options.active) query = query.in('status', ACTIVE_STATUSES)
+    if (options.terminal) query = query.eq('terminal', options.terminal)
+    if (device) query = query.eq('device', device)
+    const { data, error } = await query
+    if (!error && data) {
+      const ids = new Set(jobs.map((job) => job.id))
+      jobs = [...jobs, ...(data as CommandJob[]).filter((job) => !ids.has(job.id))]
+    }
+  }
+
+  return jobs
+    .filter((job) => !options.active || ACTIVE_STATUSES.includes(job.status))
+    .filter((job) => !options.terminal || job.terminal === options.terminal)
+    .filter((job) => !device || job.device === device)
+    .sort((a, b) => b.submitted_at.localeCompare(a.submitted_at))
+    .slice(0, limit)
+}
+
+function applyOutput(job: CommandJob, lines: string[]): CommandJob {
+  const { output, exitCode } = parseJobOutput(lines, job.id)
+  const now = new Date()
+
+  if (exitCode !== null) {
+    return { ...job, status: 'completed', exit_code: exitCode, output, finished_at: now.toISOString() }
+  }
+  if (now.toISOString() > job.timeout_at) {
+    return { ...job, status: 'timed_out', output, finished_at: now.toISOString() }
+  }
+  return { ...job, output }
+}
+
+/**
+ * Send a command to i-View as a job. Waits `wait` ms like the old
+ * synchronous behaviour, so fast commands come back already completed;
+ * the wait is cut short so i-View answers before the deadline.
+ */
+export async function submitJob(options: {
+  command: string
+  device?: string
+  terminal?: string
+  wait: number
+  track?: boolean
+  timeoutSeconds?: number
+  caller: string
+  // From requestDeadline() when the tool call started (default: now)
+  deadline?: number
+}): Promise<CommandJob> {
+  const { command, device, terminal, timeoutSeconds = DEFAULT_JOB_TIMEOUT_SECONDS, caller, deadline = requestDeadline() } = options
+  const id = newJobId()
+  const submittedAt = new Date()
+  const target = await resolveDevice(device)
+  const resolvedDevice = device ? target?.name || device : null
+  const track = options.track !== false && trackingProblem(command) === null && await atShellPrompt(device, terminal, deadline)
+
+  let job: CommandJob = {
+    id,
+    command,
+    device: resolvedDevice,
+    terminal: terminal || null,
+    status: 'queued',
+    exit_code: null,
+    output: [],
+    error: null,
+    tracked: track,
+    caller,
+    submitted_at: submittedAt.toISOString(),
+    started_at: null,
+    finished_at: null,
+    timeout_at: new Date(submittedAt.getTime() + timeoutSeconds * 1000).toISOString(),
+  }
+  await saveJob(job)
+
+  // i-View holds the response for `wait` ms before answering
+  const wait = Math.max(0, Math.min(options.wait, remainingMs(deadline) - IVIEW_RESPONSE_MARGIN_MS))
+  const result = await iview.run(
+    { command: track ? wrapCommand(command, id, target?.shell) : command, terminal, wait },
+    { device, timeoutMs: wait + IVIEW_RESPONSE_MARGIN_MS, deadline }
+  )
+
+  if (!result.success) {
+    job = { ...job, status: 'failed', error: result.error || 'Unknown error', finished_at: new Date().toISOString() }
+    await saveJob(job)
+    return job
+  }
+
+  job = {
+    ...job,
+    status: 'running',
+    terminal: result.data?.terminal || job.terminal,
+    started_at: new Date().toISOString(),
+  }
+
+  const lines = extractLines(result.data)
+  job = track
+    ? applyOutput(job, lines)
+    : { ...job, status: 'completed', output: lines.slice(-MAX_STORED_OUTPUT_LINES), finished_at: new Date().toISOString() }
+
+  await saveJob(job)
+  return job
+}
+
+/**
+ * Bring a job's status up to date by reading its terminal. Finished and
+ * untracked jobs are returned as stored.
+ */
+export async function refreshJob(job: CommandJob): Promise<CommandJob> {
+  if (!ACTIVE_STATUSES.includes(job.status) || !job.tracked) {
+    return job
+  }
+
+  const result = await iview.terminalOutput(
+    { lines: SCROLLBACK_LINES, terminal: job.terminal || undefined },
+    { device: job.device }
+  )
+
+  if (!result.success) {
+    return job
+  }
+
+  return recordJobOutput(job, extractLines(result.data))
+}
+
+// Update a job from a scrollback snapshot the caller already has
+export async function recordJobOutput(job: CommandJob, scrollback: string[]): Promise<CommandJob> {
+  const updated = applyOutput(job, scrollback)
+  await saveJob(updated)
+  return updated
+}
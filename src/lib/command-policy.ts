@@ -0,0 +1,345 @@
+/**
+ * Command safety policy for the terminal bridge tools
+ *
+ * Everything typed into a terminal is evaluated here before it reaches
+ * i-View: commands from run_terminal_command / broadcast_command, and
+ * messages for agents from send_to_agent, spawn_claude_mini and
+ * dispatch_subtasks. Rules are regex patterns that resolve to one of three
+ * actions:
+ *   - allow:   forward the command
+ *   - deny:    refuse outright
+ *   - confirm: refuse, but hand back a confirmation token. The command runs
+ *              when the same command is resubmitted with that token, once.
+ *
+ * Configuration (optional) is read from MCP_COMMAND_POLICY as JSON:
+ *   {
+ *     "defaultAction": "allow",
+ *     "rules": [{ "pattern": "\\bterraform\\s+destroy\\b", "action": "deny" }],
+ *     "terminals": { "Build Server": { "rules": [{ "pattern": "^rm -rf dist\\b", "action": "allow" }] } },
+ *     "devices": { "studio": { "rules": [...], "terminals": { "Build Server": { ... } } } }
+ *   }
+ * A command is judged by its worst part: the whole line, each command in a
+ * chain or pipeline, and what runs inside $(...), backticks and process
+ * substitutions. Configured rules are evaluated before the built-in
+ * defaults, most specific first: the terminal's override on this device,
+ * its override for every device (top-level "terminals"), the device's
+ * rules, then global rules. Devices are keyed by registered name (tags and
+ * the default device resolve to it); terminal overrides by terminal name,
+ * with IDs and session IDs resolved to the name through i-View before the
+ * check. Confirmation tokens are bound to the command, device and
+ * terminals.
+ */
+
+import { createConfirmationToken, redeemConfirmationToken } from './confirmation'
+import { resolveDevice } from './devices'
+import { iview } from './iview-client'
+
+export type PolicyAction = 'allow' | 'deny' | 'confirm'
+
+export interface PolicyRule {
+  pattern: string
+  action: PolicyAction
+  reason?: string
+}
+
+export interface TerminalPolicyOverride {
+  defaultAction?: PolicyAction
+  rules?: PolicyRule[]
+}
+
+export interface DevicePolicy {
+  defaultAction?: PolicyAction
+  rules?: PolicyRule[]
+  terminals?: Record<string, TerminalPolicyOverride>
+}
+
+export interface CommandPolicyConfig extends DevicePolicy {
+  // Keyed by registered device name
+  devices?: Record<string, DevicePolicy>
+}
+
+export interface PolicyDecision {
+  action: PolicyAction
+  reason?: string
+  rule?: string
+  device?: string
+  terminal?: string
+}
+
+// Built-in rules, always evaluated after configured ones
+const DEFAULT_RULES: PolicyRule[] = [
+  { pattern: '\\brm\\s+(-[a-zA-Z]*[rf][a-zA-Z]*\\s+)+(/|~|\\$HOME)\\s*$', action: 'deny', reason: 'Recursive delete of root or home directory' },
+  { pattern: '\\b(curl|wget)\\b[^|]*\\|\\s*(sudo\\s+)?(ba|z)?sh\\b', action: 'deny', reason: 'Piping a download into a shell' },
+  { pattern: '\\bmkfs(\\.\\w+)?\\b|\\bdd\\s+.*\\bof=/dev/', action: 'deny', reason: 'Writing directly to a disk device' },
+  { pattern: ':\\(\\)\\s*\\{\\s*:\\|:&\\s*\\};:', action: 'deny', reason: 'Fork bomb' },
+  { pattern: '\\brm\\s+-[a-zA-Z]*[rR][a-zA-Z]*\\b', action: 'confirm', reason: 'Recursive delete' },
+  { pattern: '\\bgit\\s+push\\b.*(--force\\b|--force-with-lease\\b|\\s-f\\b)', action: 'confirm', reason: 'Force push' },
+  { pattern: '\\bgit\\s+(reset\\s+--hard|clean\\s+-[a-zA-Z]*f)', action: 'confirm', reason: 'Discards local changes' },
+  { pattern: '(^|[;&|]\\s*)sudo\\b', action: 'confirm', reason: 'Runs with elevated privileges' },
+  { pattern: '\\b(shutdown|reboot|halt)\\b', action: 'confirm', reason: 'Stops the machine' },
+  { pattern: '\\bkill(all)?\\s+-9\\b|\\bpkill\\b', action: 'confirm', reason: 'Force-kills processes' },
+  { pattern: '\\b(drop\\s+(table|database)|truncate\\s+table)\\b', action: 'confirm', reason: 'Destructive SQL' },
+]
+
+const ACTION_SEVERITY: Record<PolicyAction, number> = { allow: 0, confirm: 1, deny: 2 }
+
+let cachedConfig: { raw: string | undefined; config: CommandPolicyConfig } | null = null
+
+// Read at runtime so Vercel env changes apply without a rebuild
+export function getCommandPolicyConfig(): CommandPolicyConfig {
+  const raw = process.env.MCP_COMMAND_POLICY
+  if (cachedConfig && cachedConfig.raw === raw) {
+    return cachedConfig.config
+  }
+
+  let config: CommandPolicyConfig = {}
+  if (raw) {
+    try {
+      config = JSON.parse(raw) as CommandPolicyConfig
+    } catch (err) {
+      console.error('[MCP] Invalid MCP_COMMAND_POLICY JSON - using built-in rules only', err)
+    }
+  }
+
+  cachedConfig = { raw, config }
+  return config
+}
+
+function matchRules(command: string, rules: PolicyRule[]): PolicyDecision | null {
+  for (const rule of rules) {
+    let regex: RegExp
+    try {
+      regex = new RegExp(rule.pattern, 'i')
+    } catch {
+      console.error(`[MCP] Skipping invalid command policy pattern: ${rule.pattern}`)
+      continue
+    }
+    if (regex.test(command)) {
+      return { action: rule.action, reason: rule.reason, rule: rule.pattern }
+    }
+  }
+  return null
+}
+
+// Index of the parenthesis closing the one at `open`, or the end of the command
+function closingParen(command: string, open: number): number {
+  let depth = 0
+  let quote: string | null = null
+  for (let i = open; i < command.length; i++) {
+    const char = command[i]
+    if (quote) {
+      if (char === quote) quote = null
+      else if (char === '\\' && quote === '"') i++
+    } else if (char === '\\') {
+      i++
+    } else if (char === "'" || char === '"') {
+      quote = char
+    } else if (char === '(') {
+      depth++
+    } else if (char === ')' && --depth === 0) {
+      return i
+    }
+  }
+  return command.length
+}
+
+/**
+ * Split a command into the commands it runs, so `safe && dangerous` and
+ * `echo $(dangerous)` are judged by their worst part: on && || ; & | and
+ * newlines outside quotes, plus the contents of $(...), <(...), >(...) and
+ * backticks (also inside double quotes). The caller checks the whole line
+ * too, for rules like `curl | sh` that span a pipe.
+ */
+function splitChain(command: string): string[] {
+  const parts: string[] = []
+  let current = ''
+  let quote: string | null = null
+  const flush = () => {
+    if (current.trim()) parts.push(current.trim())
+    current = ''
+  }
+
+  for (let i = 0; i < command.length; i++) {
+    const char = command[i]
+    if (quote === "'") {
+      current += char
+      if (char === "'") quote = null
+    } else if (char === '\\') {
+      current += command.slice(i, i + 2)
+      i++
+    } else if ('$<>'.includes(char) && command[i + 1] === '(') {
+      const end = closingParen(command, i + 1)
+      parts.push(...splitChain(command.slice(i + 2, end)))
+      current += command.slice(i, end + 1)
+      i = end
+    } else if (char === '`') {
+      let end = i + 1
+      while (end < command.length && command[end] !== '`') end += command[end] === '\\' ? 2 : 1
+      parts.push(...splitChain(command.slice(i + 1, end)))
+      current += command.slice(i, end + 1)
+      i = end
+    } else if (quote === '"') {
+      current += char
+      if (char === '"') quote = null
+    } else if (char === "'" || char === '"') {
+      quote = char
+      current += char
+    } else if (char === '&' && (/[<>]/.test(command[i - 1] || '') || command[i + 1] === '>')) {
+      // Redirections like 2>&1 and &> are not separators
+      current += char
+    } else if (/[;&|\n]/.test(char)) {
+      flush()
+    } else {
+      current += char
+    }
+  }
+  flush()
+  return parts
+}
+
+// Device sections match the registered name case-insensitively, like resolveDevice()
+function devicePolicy(config: CommandPolicyConfig, device: string | undefined): DevicePolicy | undefined {
+  const key = device && Object.keys(config.devices || {}).find((name) => name.toLowerCase() === device.toLowerCase())
+  return key ? config.devices?.[key] : undefined
+}
+
+function evaluateSingle(
+  command: string,
+  terminal: string | undefined,
+  device: string | undefined,
+  config: CommandPolicyConfig
+): PolicyDecision {
+  const onDevice = devicePolicy(config, device)
+  // Most specific first: this terminal on this device, then on every device
+  const overrides = terminal ? [onDevice?.terminals?.[terminal], config.terminals?.[terminal]] : []
+  const ruleSets = [...overrides.map((override) => override?.rules), onDevice?.rules, config.rules, DEFAULT_RULES]
+
+  for (const rules of ruleSets) {
+    const decision = rules && matchRules(command, rules)
+    if (decision) {
+      return { ...decision, device, terminal }
+    }
+  }
+
+  const defaultAction = [...overrides, onDevice, config].find((policy) => policy?.defaultAction)?.defaultAction
+  return { action: defaultAction || 'allow', device, terminal }
+}
+
+function mostRestrictive(decisions: PolicyDecision[]): PolicyDecision {
+  return decisions.reduce((worst, current) =>
+    ACTION_SEVERITY[current.action] > ACTION_SEVERITY[worst.action] ? current : worst
+  )
+}
+
+/**
+ * Evaluate a command against the policy for each target terminal (names as
+ * returned by resolvePolicyTargets) on a device (registered name).
+ * undefined stands for device-wide and global rules only.
+ */
+export function evaluateCommand(
+  command: string,
+  terminals: (string | undefined)[] = [undefined],
+  device?: string
+): PolicyDecision {
+  const config = getCommandPolicyConfig()
+  const parts = [command, ...splitChain(command)]
+  const targets = terminals.length > 0 ? terminals : [undefined]
+
+  const decisions = targets.flatMap((terminal) =>
+    parts.map((part) => evaluateSingle(part, terminal, device, config))
+  )
+
+  return mostRestrictive(decisions)
+}
+
+/**
+ * Turn the terminals a call names into the names overrides are keyed by.
+ * IDs and session IDs resolve to the terminal's name. Calls without a
+ * terminal (the active one, or every terminal for broadcasts) and terminals
+ * i-View cannot resolve are checked against every override, so leaving the
+ * terminal out or naming it differently never skips a stricter override.
+ */
+export async function resolvePolicyTargets(
+  terminals: (string | undefined)[],
+  device?: string
+): Promise<(string | undefined)[]> {
+  const config = getCommandPolicyConfig()
+  const overrides = { ...config.terminals, ...devicePolicy(config, device)?.terminals }
+  const overrideNames = Object.keys(overrides)
+  const named = terminals.filter((terminal): terminal is string => Boolean(terminal))
+  if (overrideNames.length === 0) {
+    return named.length > 0 ? named : [undefined]
+  }
+
+  const everyOverride = [undefined, ...overrideNames]
+  if (named.length === 0) {
+    return everyOverride
+  }
+
+  const listed = named.every((terminal) => overrides[terminal]) ? null : await iview.listTerminals({ device, retries: 0 })
+  const entries = listed?.success ? (Array.isArray(listed.data) ? listed.data : listed.data?.terminals || []) : []
+
+  const targets = named.flatMap((terminal) => {
+    if (overrides[terminal]) return [terminal]
+    const entry = entries.find((candidate) => [candidate.id, candidate.name, candidate.sessionId].includes(terminal))
+    const name = entry?.name || entry?.id
+    return name ? [name] : everyOverride
+  })
+  return [...new Set(targets)]
+}
+
+// Token is bound to the exact command, device and target terminals
+function confirmationSubject(command: string, device: string | undefined, terminals: (string | undefined)[]) {
+  return { kind: 'command', command, device: device ?? null, terminals: terminals.map((t) => t ?? null) }
+}
+
+/**
+ * Run the full policy check for a tool call. Returns null when the command
+ * may proceed, otherwise a tool result describing why it was stopped.
+ */
+export async function checkCommandPolicy(
+  command: string,
+  terminals: (string | undefined)[] = [undefined],
+  confirmationToken?: string,
+  device?: string
+): Promise<{ content: { type: 'text'; text: string }[]; isError?: boolean } | null> {
+  // The registered name, so a tag or the implicit default device gets its device section
+  const deviceName = (await resolveDevice(device))?.name || device
+  const decision = evaluateCommand(command, await resolvePolicyTargets(terminals, deviceName), deviceName)
+
+  if (decision.action === 'allow') {
+    return null
+  }
+
+  if (decision.action === 'deny') {
+    return {
+      content: [{
+        type: 'text',
+        text: `Error: Command blocked by policy${decision.reason ? ` (${decision.reason})` : ''}`
+      }],
+      isError: true
+    }
+  }
+
+  const subject = confirmationSubject(command, deviceName, terminals)
+  if (confirmationToken && await redeemConfirmationToken(confirmationToken, subject)) {
+    return null
+  }
+
+  const { token, expiresAt } = createConfirmationToken(subject)
+  return {
+    content: [{
+      type: 'text',
+      text: JSON.stringify({
+        success: false,
+        requiresConfirmation: true,
+        reason: decision.reason,
+        device: decision.device,
+        terminal: decision.terminal,
+        confirmationToken: token,
+        expiresAt,
+        message: `This command needs confirmation${decision.reason ? ` (${decision.reason})` : ''}. Ask the user, then call again with the same command and confirmationToken.`
+      })
+    }]
+  }
+}
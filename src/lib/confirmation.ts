@@ -0,0 +1,93 @@
+/**
+ * Signed, single-use confirmation tokens
+ *
+ * Used wherever a tool refuses a risky action until the user confirms
+ * (dangerous terminal commands, large Supabase mutations). A token is an
+ * HMAC over the exact action it was issued for and a random nonce, so it
+ * can't be reused for a different command or filter, and it expires after
+ * a few minutes. Redeeming a token records its nonce - in Supabase
+ * (MCP_CONFIRMATIONS_TABLE, default "mcp_used_confirmations") when
+ * configured, otherwise in memory - so each token works once.
+ *
+ * MCP_CONFIRM_SECRET should be set in production so tokens verify across
+ * serverless instances; otherwise a per-instance random secret is used.
+ */
+
+import { createHmac, randomBytes, timingSafeEqual } from 'node:crypto'
+import { getSupabase, isSupabaseConfigured } from './supabase'
+
+// Confirmation tokens are valid for 5 minutes
+const CONFIRMATION_TTL_MS = 5 * 60 * 1000
+
+// Postgres unique_violation: the nonce was already redeemed
+const UNIQUE_VIOLATION = '23505'
+
+const processSecret = randomBytes(32).toString('hex')
+
+// Nonces redeemed through this instance, with their expiry
+const usedNonces = new Map<string, number>()
+
+const getConfirmationsTable = () => process.env.MCP_CONFIRMATIONS_TABLE || 'mcp_used_confirmations'
+
+function sign(subject: unknown, expiresAt: number, nonce: string): string {
+  const secret = process.env.MCP_CONFIRM_SECRET || processSecret
+  return createHmac('sha256', secret)
+    .update(JSON.stringify({ subject, expiresAt, nonce }))
+    .digest('base64url')
+}
+
+export function createConfirmationToken(subject: unknown): { token: string; expiresAt: string } {
+  const expiresAt = Date.now() + CONFIRMATION_TTL_MS
+  const nonce = randomBytes(12).toString('base64url')
+  return {
+    token: `${expiresAt}.${nonce}.${sign(subject, expiresAt, nonce)}`,
+    expiresAt: new Date(expiresAt).toISOString()
+  }
+}
+
+function verifyConfirmationToken(token: string, subject: unknown): { nonce: string; expiresAt: number } | null {
+  const [expiresRaw, nonce, signature] = token.split('.')
+  const expiresAt = Number(expiresRaw)
+  if (!nonce || !signature || !Number.isFinite(expiresAt) || expiresAt < Date.now()) {
+    return null
+  }
+
+  const expected = Buffer.from(sign(subject, expiresAt, nonce))
+  const provided = Buffer.from(signature)
+  return expected.length === provided.length && timingSafeEqual(expected, provided) ? { nonce, expiresAt } : null
+}
+
+// Record a nonce as used. False when it already was.
+async function markNonceUsed(nonce: string, expiresAt: number): Promise<boolean> {
+  const now = Date.now()
+  for (const [used, expiry] of usedNonces) {
+    if (expiry < now) usedNonces.delete(used)
+  }
+  if (usedNonces.has(nonce)) {
+    return false
+  }
+  // Before any await, so a concurrent redemption on this instance sees it
+  usedNonces.set(nonce, expiresAt)
+
+  if (isSupabaseConfigured()) {
+    const { error } = await getSupabase()
+      .from(getConfirmationsTable())
+      .insert({ nonce, expires_at: new Date(expiresAt).toISOString() })
+    if (error?.code === UNIQUE_VIOLATION) {
+      return false
+    }
+    if (error) {
+      console.error(`[MCP] Confirmation store insert failed, tracking the token in memory: ${error.message}`)
+    }
+  }
+  return true
+}
+
+/**
+ * Check a token against the action it is presented for, and use it up.
+ * Returns false for a wrong, expired or already redeemed token.
+ */
+export async function redeemConfirmationToken(token: string, subject: unknown): Promise<boolean> {
+  const verified = verifyConfirmationToken(token, subject)
+  return verified ? markNonceUsed(verified.nonce, verified.expiresAt) : false
+}
@@ -0,0 +1,206 @@
+/**
+ * i-View device registry
+ *
+ * One MCP server can drive several Macs running i-View Mini. Devices come
+ * from (all optional, merged; later sources win on name clashes):
+ *   - IVIEW_BASE_URL:     the local machine, registered as "default"
+ *   - MCP_DEVICES:        JSON array of { name, baseUrl, token?, tags?, shell? }
+ *   - MCP_DEVICES_TABLE:  Supabase table with columns
+ *                         name, base_url, auth_token, tags (text[]), disabled_at
+ *                         and optionally shell
+ * `shell` names the login shell of the device's terminals when it is not
+ * POSIX-like ("fish"); IVIEW_SHELL sets it for the default device.
+ *
+ * Tools take an optional `device` argument matched against names first and
+ * tags second ("studio" finds a device tagged studio). Without it calls go
+ * to MCP_DEFAULT_DEVICE, or "default".
+ */
+
+import { z } from 'zod'
+import { getCircuitState } from './iview'
+import { readVersion } from './iview-client'
+import { getSupabase, isSupabaseConfigured } from './supabase'
+
+export interface Device {
+  name: string
+  baseUrl: string
+  token?: string
+  tags: string[]
+  shell?: string
+}
+
+// Spread into a tool's parameter shape
+export const deviceParams = {
+  device: z.string().optional().describe('Registered device name or tag (see list_devices). Defaults to the default machine.')
+}
+
+// Shape accepted in MCP_DEVICES
+interface DeviceConfig {
+  name: string
+  baseUrl: string
+  token?: string
+  tags?: string[]
+  shell?: string
+}
+
+const DEFAULT_DEVICE_NAME = 'default'
+
+// Table-loaded devices are cached briefly like API keys
+const TABLE_CACHE_TTL_MS = 60 * 1000
+let tableCache: { table: string; loadedAt: number; devices: Device[] } | null = null
+
+const stripSlash = (url: string) => url.replace(/\/+$/, '')
+
+function loadEnvDevices(): Device[] {
+  const devices: Device[] = [{
+    name: DEFAULT_DEVICE_NAME,
+    baseUrl: stripSlash(process.env.IVIEW_BASE_URL || 'http://127.0.0.1:9877'),
+    token: process.env.IVIEW_AUTH_TOKEN || undefined,
+    tags: ['local'],
+    shell: process.env.IVIEW_SHELL || undefined,
+  }]
+
+  const raw = process.env.MCP_DEVICES
+  if (raw) {
+    try {
+      const configs = JSON.parse(raw) as DeviceConfig[]
+      for (const config of configs) {
+        if (!config.name || !config.baseUrl) {
+          console.error('[MCP] Skipping MCP_DEVICES entry without name and baseUrl')
+          continue
+        }
+        devices.push({
+          name: config.name,
+          baseUrl: stripSlash(config.baseUrl),
+          token: config.token,
+          tags: config.tags || [],
+          shell: config.shell,
+        })
+      }
+    } catch (err) {
+      console.error('[MCP] Invalid MCP_DEVICES JSON - ignoring', err)
+    }
+  }
+
+  return devices
+}
+
+async function loadTableDevices(): Promise<Device[]> {
+  const table = process.env.MCP_DEVICES_TABLE
+  if (!table || !isSupabaseConfigured()) {
+    return []
+  }
+
+  if (tableCache && tableCache.table === table && Date.now() - tableCache.loadedAt < TABLE_CACHE_TTL_MS) {
+    return tableCache.devices
+  }
+
+  // All columns, so tables without the optional shell column keep working
+  const { data, error } = await getSupabase()
+    .from(table)
+    .select('*')
+    .is('disabled_at', null)
+
+  if (error) {
+    console.error(`[MCP] Failed to load devices from ${table}: ${error.message}`)
+    return tableCache?.devices || []
+  }
+
+  const devices = (data || []).map((row) => ({
+    name: row.name as string,
+    baseUrl: stripSlash(String(row.base_url)),
+    token: (row.auth_token as string | null) || undefined,
+    tags: (row.tags as string[] | null) || [],
+    shell: (row.shell as string | null | undefined) || undefined,
+  }))
+
+  tableCache = { table, loadedAt: Date.now(), devices }
+  return devices
+}
+
+export async function loadDevices(): Promise<Device[]> {
+  const byName = new Map<string, Device>()
+  for (const device of [...loadEnvDevices(), ...(await loadTableDevices())]) {
+    byName.set(device.name.toLowerCase(), device)
+  }
+  return [...byName.values()]
+}
+
+/**
+ * Pick the device for a call. Exact name wins, then the first device
+ * carrying the tag. Returns null when nothing matches.
+ */
+export async function resolveDevice(nameOrTag?: string | null): Promise<Device | null> {
+  const devices = await loadDevices()
+  const wanted = (nameOrTag || process.env.MCP_DEFAULT_DEVICE || DEFAULT_DEVICE_NAME).toLowerCase()
+
+  return devices.find((device) => device.name.toLowerCase() === wanted)
+    || devices.find((device) => device.tags.some((tag) => tag.toLowerCase() === wanted))
+    || null
+}
+
+export async function unknownDeviceMessage(nameOrTag: string): Promise<string> {
+  const names = (await loadDevices()).map((device) => device.name)
+  return `Unknown device "${nameOrTag}". Registered devices: ${names.join(', ')}`
+}
+
+// Health probes give up quickly so one offline machine doesn't stall the list
+const PROBE_TIMEOUT_MS = 3000
+
+export interface DeviceStatus {
+  name: string
+  baseUrl: string
+  tags: string[]
+  isDefault: boolean
+  reachable: boolean
+  latencyMs: number | null
+  // i-View version from the health endpoint, when reported
+  version: string | null
+  // Open while tool calls to this device are failing fast
+  circuitOpen: boolean
+  error?: string
+}
+
+/**
+ * Probe every registered device's health endpoint in parallel. Tokens are
+ * never included in the result.
+ */
+export async function checkDevices(): Promise<DeviceStatus[]> {
+  const devices = await loadDevices()
+  const defaultDevice = await resolveDevice()
+
+  return Promise.all(devices.map(async (device) => {
+    const startedAt = Date.now()
+    const base = {
+      name: device.name,
+      baseUrl: device.baseUrl,
+      tags: device.tags,
+      isDefault: device.name === defaultDevice?.name,
+      circuitOpen: getCircuitState(device.baseUrl).open,
+    }
+
+    try {
+      const response = await fetch(`${device.baseUrl}/quick/health`, {
+        headers: device.token ? { Authorization: `Bearer ${device.token}` } : {},
+        signal: AbortSignal.timeout(PROBE_TIMEOUT_MS),
+      })
+      const latencyMs = Date.now() - startedAt
+      const health = await response.json().catch(() => null)
+      return {
+        ...base,
+        reachable: response.ok,
+        latencyMs,
+        version: response.ok ? readVersion(health) : null,
+        ...(response.ok ? {} : { error: `HTTP ${response.status}` }),
+      }
+    } catch (err) {
+      return {
+        ...base,
+        reachable: false,
+        latencyMs: null,
+        version: null,
+        error: err instanceof Error ? err.message : 'Unreachable',
+      }
+    }
+  }))
+}
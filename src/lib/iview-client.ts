@@ -0,0 +1,346 @@
+/**
+ * Typed i-View Mini client
+ *
+ * One method per endpoint, each with a zod schema for its request and its
+ * response. Responses are checked against the fields this server relies on;
+ * unknown extra fields pass through untouched, so newer i-View builds that
+ * add data keep working. A response whose known fields have the wrong shape
+ * comes back as an `incompatible_version` error naming the i-View version.
+ *
+ * The first call to each device also asks /quick/health for i-View's
+ * version and logs it, so mismatches can be traced to a build.
+ */
+
+import { z } from 'zod'
+import { resolveDevice } from './devices'
+import { callIView, type IViewResult } from './iview'
+
+export interface IViewCallOptions {
+  device?: string | null
+  timeoutMs?: number
+  retries?: number
+  // Epoch ms from requestDeadline()
+  deadline?: number
+}
+
+// i-View returns terminal output either as a line array or as one string
+const outputLines = z.union([z.array(z.string()), z.string()])
+
+// Lists come back bare or wrapped in an object, depending on the endpoint
+const listOf = <T extends z.ZodTypeAny>(key: string, item: T) =>
+  z.union([z.array(item), z.object({ [key]: z.array(item).optional() }).passthrough()])
+
+const terminalInfo = z.object({
+  id: z.string().optional(),
+  name: z.string().optional(),
+  state: z.string().optional(),
+}).passthrough()
+
+const sessionInfo = z.object({
+  id: z.string().optional(),
+  name: z.string().optional(),
+}).passthrough()
+
+const agentInfo = z.object({
+  terminal: z.string().optional(),
+  state: z.string().optional(),
+}).passthrough()
+
+// Generic acknowledgement for commands that only report success
+const ack = z.object({
+  success: z.boolean().optional(),
+  error: z.string().optional(),
+}).passthrough()
+
+export const iviewSchemas = {
+  run: {
+    request: z.object({
+      command: z.string().min(1),
+      terminal: z.string().optional(),
+      wait: z.number().nonnegative().optional(),
+    }),
+    response: ack.extend({
+      terminal: z.string().optional(),
+      output: outputLines.optional(),
+    }),
+  },
+  terminalOutput: {
+    request: z.object({
+      lines: z.number().int().positive().optional(),
+      terminal: z.string().optional(),
+    }),
+    response: z.object({
+      terminal: z.string().optional(),
+      output: outputLines.optional(),
+      lines: outputLines.optional(),
+    }).passthrough(),
+  },
+  health: {
+    request: z.object({}),
+    response: z.object({
+      version: z.string().optional(),
+      terminals: z.unknown().optional(),
+    }).passthrough(),
+  },
+  snapshot: {
+    request: z.object({}),
+    response: z.object({}).passthrough(),
+  },
+  broadcast: {
+    request: z.object({
+      command: z.string().min(1),
+      terminals: z.array(z.string()).optional(),
+    }),
+    response: ack,
+  },
+  createSession: {
+    request: z.object({
+      name: z.string().min(1),
+      workingDirectory: z.string().optional(),
+      spawnAgent: z.boolean().optional(),
+    }),
+    response: ack.extend({
+      sessionId: z.string().optional(),
+      terminal: z.string().optional(),
+    }),
+  },
+  deleteSession: {
+    request: z.object({
+      name: z.string().optional(),
+      id: z.string().optional(),
+    }).refine((value) => value.name || value.id, 'name or id is required'),
+    response: ack,
+  },
+  listTerminals: {
+    request: z.object({}),
+    response: listOf('terminals', terminalInfo),
+  },
+  listSessions: {
+    request: z.object({}),
+    response: listOf('sessions', sessionInfo),
+  },
+  sessionMemory: {
+    request: z.object({ terminal: z.string().optional() }),
+    response: z.object({
+      memory: z.string().optional(),
+      content: z.string().optional(),
+    }).passthrough(),
+  },
+  spawnMini: {
+    request: z.object({
+      terminal: z.string().optional(),
+      cwd: z.string().optional(),
+      firstMessage: z.string().optional(),
+      waitForReady: z.number().nonnegative().optional(),
+    }),
+    response: ack.extend({ terminal: z.string().optional() }),
+  },
+  sendToAgent: {
+    request: z.object({
+      message: z.string().min(1),
+      terminal: z.string().optional(),
+      mode: z.enum(['prompt', 'mini', 'claude']),
+    }),
+    response: ack.extend({ terminal: z.string().optional() }),
+  },
+  listAgents: {
+    request: z.object({}),
+    response: listOf('agents', agentInfo),
+  },
+  navigate: {
+    request: z.object({ url: z.string().min(1) }),
+    response: ack.extend({ url: z.string().optional() }),
+  },
+  click: {
+    request: z.object({
+      selector: z.string().optional(),
+      text: z.string().optional(),
+    }).refine((value) => value.selector || value.text, 'selector or text is required'),
+    response: ack,
+  },
+  fill: {
+    request: z.object({ selector: z.string().min(1), value: z.string() }),
+    response: ack,
+  },
+  screenshot: {
+    request: z.object({ preset: z.enum(['fast', 'balanced', 'thumbnail', 'quality']) }),
+    response: z.object({
+      image: z.string().optional(),
+      base64: z.string().optional(),
+      format: z.string().optional(),
+      mimeType: z.string().optional(),
+      width: z.number().optional(),
+      height: z.number().optional(),
+    }).passthrough(),
+  },
+  consoleLogs: {
+    request: z.object({ level: z.enum(['error', 'warn', 'log']).optional() }),
+    response: listOf('logs', z.unknown()),
+  },
+  elements: {
+    request: z.object({
+      selector: z.string().min(1),
+      limit: z.number().int().positive().optional(),
+    }),
+    response: listOf('elements', z.unknown()),
+  },
+}
+
+type Schemas = typeof iviewSchemas
+type Request<K extends keyof Schemas> = z.input<Schemas[K]['request']>
+type Response<K extends keyof Schemas> = z.output<Schemas[K]['response']>
+
+// First-contact version per device name; null = i-View didn't report one
+const versions = new Map<string, Promise<string | null>>()
+
+export function readVersion(data: unknown): string | null {
+  const health = data as { version?: unknown; iviewVersion?: unknown; app?: { version?: unknown } } | undefined
+  const version = health?.version ?? health?.iviewVersion ?? health?.app?.version
+  return typeof version === 'string' ? version : null
+}
+
+// Resolves with the device's i-View version, probing it on first contact
+export function getIViewVersion(deviceName: string): Promise<string | null> {
+  let pending = versions.get(deviceName)
+  if (!pending) {
+    pending = callIView('/quick/health', { device: deviceName, timeoutMs: 3000, retries: 0 }).then((result) => {
+      if (!result.success) {
+        // Ask again on the next call instead of remembering an outage
+        versions.delete(deviceName)
+        return null
+      }
+      const version = readVersion(result.data)
+      console.log(`[MCP] Connected to i-View ${version ?? '(version not reported)'} on device "${deviceName}"`)
+      return version
+    })
+    versions.set(deviceName, pending)
+  }
+  return pending
+}
+
+// For unions (bare list vs wrapped list) report the branch that got furthest
+function leafIssues(issues: z.ZodIssue[]): z.ZodIssue[] {
+  return issues.flatMap((issue) => {
+    if (issue.code !== 'invalid_union') return [issue]
+    const branches = issue.unionErrors.map((error) => leafIssues(error.issues))
+    return branches.reduce((best, branch) =>
+      Math.max(...branch.map((i) => i.path.length)) > Math.max(...best.map((i) => i.path.length)) ? branch : best
+    )
+  })
+}
+
+function formatIssues(error: z.ZodError, label: string): string {
+  return leafIssues(error.issues)
+    .slice(0, 3)
+    .map((issue) => `${issue.path.join('.') || label}: ${issue.message}`)
+    .join('; ')
+}
+
+async function request<K extends keyof Schemas>(
+  name: K,
+  params: Request<K>,
+  send: (body: Record<string, unknown>) => { endpoint: string; method?: string; body?: unknown },
+  options: IViewCallOptions
+): Promise<IViewResult<Response<K>>> {
+  const schema = iviewSchemas[name]
+  const parsedRequest = schema.request.safeParse(params)
+  if (!parsedRequest.success) {
+    return {
+      success: false,
+      errorKind: 'invalid_request',
+      error: `Invalid ${name} request: ${formatIssues(parsedRequest.error, 'request')}`,
+    }
+  }
+
+  const { endpoint, method, body } = send(parsedRequest.data as Record<string, unknown>)
+  const device = await resolveDevice(options.device)
+  const [result, version] = await Promise.all([
+    callIView(endpoint, { method, body, ...options }),
+    device ? getIViewVersion(device.name) : Promise.resolve(null),
+  ])
+
+  if (!result.success) {
+    return result as IViewResult<Response<K>>
+  }
+
+  // An empty body is an empty object as far as the schemas are concerned
+  const parsedResponse = schema.response.safeParse(result.data ?? {})
+  if (!parsedResponse.success) {
+    return {
+      success: false,
+      errorKind: 'incompatible_version',
+      error: `i-View ${version ?? '(unknown version)'} on ${device?.name || 'device'} returned an unexpected ${endpoint.split('?')[0]} response - this server and i-View are likely on incompatible versions (${formatIssues(parsedResponse.error, 'response')})`,
+    }
+  }
+
+  return { success: true, data: parsedResponse.data as Response<K> }
+}
+
+// Drop undefined values so they don't end up as "undefined" in the query string
+function query(params: Record<string, unknown>): string {
+  const search = new URLSearchParams()
+  for (const [key, value] of Object.entries(params)) {
+    if (value !== undefined && value !== null) search.set(key, String(value))
+  }
+  const text = search.toString()
+  return text ? `?${text}` : ''
+}
+
+export const iview = {
+  run: (params: Request<'run'>, options: IViewCallOptions = {}) =>
+    request('run', params, (body) => ({ endpoint: '/quick/run', method: 'POST', body }), options),
+
+  terminalOutput: (params: Request<'terminalOutput'>, options: IViewCallOptions = {}) =>
+    request('terminalOutput', params, (q) => ({ endpoint: `/terminal/output${query(q)}` }), options),
+
+  health: (options: IViewCallOptions = {}) =>
+    request('health', {}, () => ({ endpoint: '/quick/health' }), options),
+
+  snapshot: (options: IViewCallOptions = {}) =>
+    request('snapshot', {}, () => ({ endpoint: '/quick/snapshot' }), options),
+
+  broadcast: (params: Request<'broadcast'>, options: IViewCallOptions = {}) =>
+    request('broadcast', params, (body) => ({ endpoint: '/quick/broadcast', method: 'POST', body }), options),
+
+  createSession: (params: Request<'createSession'>, options: IViewCallOptions = {}) =>
+    request('createSession', params, (body) => ({ endpoint: '/quick/session', method: 'POST', body }), options),
+
+  deleteSession: (params: Request<'deleteSession'>, options: IViewCallOptions = {}) =>
+    request('deleteSession', params, (q) => ({ endpoint: `/quick/session${query(q)}`, method: 'DELETE' }), options),
+
+  listTerminals: (options: IViewCallOptions = {}) =>
+    request('listTerminals', {}, () => ({ endpoint: '/quick/terminals' }), options),
+
+  listSessions: (options: IViewCallOptions = {}) =>
+    request('listSessions', {}, () => ({ endpoint: '/quick/sessions' }), options),
+
+  sessionMemory: (params: Request<'sessionMemory'>, options: IViewCallOptions = {}) =>
+    request('sessionMemory', params, (q) => ({ endpoint: `/quick/memory${query(q)}` }), options),
+
+  spawnMini: (params: Request<'spawnMini'>, options: IViewCallOptions = {}) =>
+    request('spawnMini', params, (body) => ({ endpoint: '/quick/mini', method: 'POST', body }), options),
+
+  sendToAgent: (params: Request<'sendToAgent'>, options: IViewCallOptions = {}) =>
+    request('sendToAgent', params, (body) => ({ endpoint: '/quick/agent', method: 'POST', body }), options),
+
+  listAgents: (options: IViewCallOptions = {}) =>
+    request('listAgents', {}, () => ({ endpoint: '/quick/agents' }), options),
+
+  navigate: (params: Request<'navigate'>, options: IViewCallOptions = {}) =>
+    request('navigate', params, (body) => ({ endpoint: '/navigate', method: 'POST', body }), options),
+
+  click: (params: Request<'click'>, options: IViewCallOptions = {}) =>
+    request('click', params, (body) => ({ endpoint: '/webview/click', method: 'POST', body }), options),
+
+  fill: (params: Request<'fill'>, options: IViewCallOptions = {}) =>
+    request('fill', params, (body) => ({ endpoint: '/webview/fill', method: 'POST', body }), options),
+
+  screenshot: (params: Request<'screenshot'>, options: IViewCallOptions = {}) =>
+    request('screenshot', params, (q) => ({ endpoint: `/screenshot/webview${query(q)}` }), options),
+
+  consoleLogs: (params: Request<'consoleLogs'>, options: IViewCallOptions = {}) =>
+    request('consoleLogs', params, (q) => ({ endpoint: `/webview/console${query(q)}` }), options),
+
+  elements: (params: Request<'elements'>, options: IViewCallOptions = {}) =>
+    request('elements', params, (q) => ({ endpoint: `/webview/elements${query(q)}` }), options),
+}
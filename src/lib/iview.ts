@@ -0,0 +1,263 @@
+/**
+ * i-View Mini HTTP client
+ *
+ * i-View Mini provides direct HTTP endpoints at:
+ *   - Dev: http://127.0.0.1:9877
+ *   - Prod: http://127.0.0.1:9876
+ * Other machines are reached through the device registry.
+ *
+ * Every call has a timeout (IVIEW_TIMEOUT_MS, default 10s, or per call),
+ * cut short by the calling tool's deadline when one is passed (see
+ * request-deadline.ts).
+ * GET requests are retried with backoff on connection errors and
+ * 502/503/504; other methods are sent once since they may not be safe to
+ * repeat. Timeouts are not retried - a hung device would otherwise cost a
+ * timeout per attempt. After repeated connection failures a device's
+ * circuit opens and calls fail fast until the cooldown passes, so an
+ * offline Mac costs milliseconds instead of the whole request budget. Then
+ * a single call probes the device while the rest keep failing fast; its
+ * success closes the circuit, its failure starts another cooldown.
+ */
+
+import { resolveDevice, unknownDeviceMessage } from './devices'
+
+export type IViewErrorKind =
+  | 'unknown_device'
+  | 'unreachable'
+  | 'timeout'
+  | 'circuit_open'
+  | 'http'
+  | 'bad_payload'
+  // Raised by the typed client (iview-client.ts)
+  | 'invalid_request'
+  | 'incompatible_version'
+
+export interface IViewResult<T> {
+  success: boolean
+  data?: T
+  error?: string
+  errorKind?: IViewErrorKind
+  // HTTP status for 'http' errors
+  status?: number
+}
+
+const DEFAULT_TIMEOUT_MS = 10_000
+const DEFAULT_GET_RETRIES = 2
+const RETRY_BASE_DELAY_MS = 250
+const RETRYABLE_STATUSES = [502, 503, 504]
+
+// Consecutive connection failures before a device's circuit opens
+const CIRCUIT_FAILURE_THRESHOLD = 3
+const CIRCUIT_COOLDOWN_MS = 30_000
+
+// Per base URL; after the cooldown one call is let through to probe
+const circuits = new Map<string, { failures: number; openUntil: number; probing: boolean }>()
+
+const getDefaultTimeout = () => Number(process.env.IVIEW_TIMEOUT_MS) || DEFAULT_TIMEOUT_MS
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms))
+
+export function getCircuitState(baseUrl: string): { open: boolean; failures: number; retryInMs: number } {
+  const circuit = circuits.get(baseUrl)
+  const retryInMs = circuit ? Math.max(0, circuit.openUntil - Date.now()) : 0
+  return { open: retryInMs > 0 || Boolean(circuit?.probing), failures: circuit?.failures || 0, retryInMs }
+}
+
+// Whether a call may go out; once the cooldown has passed, the first caller takes the probe
+function admitCall(baseUrl: string): boolean {
+  const circuit = circuits.get(baseUrl)
+  if (!circuit || circuit.failures < CIRCUIT_FAILURE_THRESHOLD) {
+    return true
+  }
+  if (circuit.openUntil > Date.now() || circuit.probing) {
+    return false
+  }
+  circuit.probing = true
+  return true
+}
+
+function endProbe(baseUrl: string) {
+  const circuit = circuits.get(baseUrl)
+  if (circuit) circuit.probing = false
+}
+
+function recordConnectionFailure(baseUrl: string) {
+  const circuit = circuits.get(baseUrl) || { failures: 0, openUntil: 0, probing: false }
+  circuit.failures++
+  if (circuit.failures >= CIRCUIT_FAILURE_THRESHOLD) {
+    circuit.openUntil = Date.now() + CIRCUIT_COOLDOWN_MS
+  }
+  circuits.set(baseUrl, circuit)
+}
+
+function recordSuccess(baseUrl: string) {
+  circuits.delete(baseUrl)
+}
+
+// Empty bodies are fine; anything else must be JSON
+function parseBody(text: string): { ok: true; data: unknown } | { ok: false } {
+  if (!text.trim()) {
+    return { ok: true, data: undefined }
+  }
+  try {
+    return { ok: true, data: JSON.parse(text) }
+  } catch {
+    return { ok: false }
+  }
+}
+
+const formatDuration = (ms: number) => (ms < 1000 ? `${ms}ms` : `${Math.round(ms / 1000)}s`)
+
+// fetch() reports "fetch failed"; the useful part (ECONNREFUSED, ENOTFOUND) is the cause
+function describeFetchError(err: unknown): string {
+  const cause = (err as { cause?: { code?: unknown; message?: unknown } } | undefined)?.cause
+  if (typeof cause?.code === 'string') return cause.code
+  if (typeof cause?.message === 'string') return cause.message
+  return err instanceof Error ? err.message : 'connection failed'
+}
+
+const snippet = (text: string) => text.replace(/\s+/g, ' ').trim().slice(0, 120)
+
+async function attempt<T>(
+  url: string,
+  init: RequestInit,
+  timeoutMs: number,
+  deviceName: string
+): Promise<IViewResult<T>> {
+  let response: Response
+  let text: string
+  try {
+    response = await fetch(url, { ...init, signal: AbortSignal.timeout(timeoutMs) })
+    text = await response.text()
+  } catch (err) {
+    if (err instanceof Error && (err.name === 'TimeoutError' || err.name === 'AbortError')) {
+      return {
+        success: false,
+        errorKind: 'timeout',
+        error: `i-View on ${deviceName} did not respond within ${formatDuration(timeoutMs)}`,
+      }
+    }
+    return {
+      success: false,
+      errorKind: 'unreachable',
+      error: `i-View on ${deviceName} is unreachable - the Mac may be offline or i-View not running (${describeFetchError(err)})`,
+    }
+  }
+
+  const body = parseBody(text)
+
+  if (!response.ok) {
+    const data = body.ok ? (body.data as { error?: unknown } | undefined) : undefined
+    const message = typeof data?.error === 'string' ? data.error : snippet(text)
+    return {
+      success: false,
+      errorKind: 'http',
+      status: response.status,
+      error: `i-View on ${deviceName} returned HTTP ${response.status}${message ? `: ${message}` : ''}`,
+    }
+  }
+
+  if (!body.ok) {
+    const contentType = response.headers.get('content-type') || 'unknown content type'
+    return {
+      success: false,
+      errorKind: 'bad_payload',
+      error: `i-View on ${deviceName} sent a non-JSON response (${contentType}): ${snippet(text)}`,
+    }
+  }
+
+  return { success: true, data: body.data as T }
+}
+
+const isConnectionFailure = (result: IViewResult<unknown>) =>
+  result.errorKind === 'unreachable' || result.errorKind === 'timeout'
+
+const isRetryable = (result: IViewResult<unknown>) =>
+  result.errorKind === 'unreachable' || (result.errorKind === 'http' && RETRYABLE_STATUSES.includes(result.status || 0))
+
+// Helper to call i-View endpoints on a registered device (see devices.ts)
+export async function callIView<T = unknown>(
+  endpoint: string,
+  options: {
+    method?: string
+    body?: unknown
+    device?: string | null
+    timeoutMs?: number
+    // GET only; defaults to 2
+    retries?: number
+    // Epoch ms the calling tool must finish by; caps the timeout and retries
+    deadline?: number
+  } = {}
+): Promise<IViewResult<T>> {
+  const { method = 'GET', body, device: deviceName, timeoutMs = getDefaultTimeout(), deadline } = options
+  const retries = method === 'GET' ? options.retries ?? DEFAULT_GET_RETRIES : 0
+
+  const device = await resolveDevice(deviceName)
+  if (!device) {
+    return {
+      success: false,
+      errorKind: 'unknown_device',
+      error: await unknownDeviceMessage(deviceName || process.env.MCP_DEFAULT_DEVICE || 'default'),
+    }
+  }
+
+  if (!admitCall(device.baseUrl)) {
+    const circuit = getCircuitState(device.baseUrl)
+    return {
+      success: false,
+      errorKind: 'circuit_open',
+      error: circuit.retryInMs > 0
+        ? `i-View on ${device.name} is offline (${circuit.failures} failed attempts) - not retrying for another ${Math.ceil(circuit.retryInMs / 1000)}s`
+        : `i-View on ${device.name} is offline (${circuit.failures} failed attempts) - another call is checking whether it is back`,
+    }
+  }
+
+  const init: RequestInit = {
+    method,
+    headers: {
+      'Content-Type': 'application/json',
+      ...(device.token ? { Authorization: `Bearer ${device.token}` } : {}),
+    },
+  }
+  if (body) {
+    init.body = JSON.stringify(body)
+  }
+
+  // Admitted while half-open: this call is the probe
+  const probe = circuits.get(device.baseUrl)?.probing === true
+  let result: IViewResult<T> = { success: false }
+  try {
+    for (let attemptNumber = 0; attemptNumber <= retries; attemptNumber++) {
+      if (attemptNumber > 0) {
+        await sleep(RETRY_BASE_DELAY_MS * 2 ** (attemptNumber - 1) * (0.5 + Math.random()))
+      }
+
+      const attemptTimeoutMs = deadline === undefined ? timeoutMs : Math.min(timeoutMs, deadline - Date.now())
+      if (attemptTimeoutMs <= 0) {
+        if (attemptNumber === 0) {
+          result = { success: false, errorKind: 'timeout', error: `No time left in this request to call i-View on ${device.name}` }
+        }
+        break
+      }
+
+      result = await attempt<T>(`${device.baseUrl}${endpoint}`, init, attemptTimeoutMs, device.name)
+
+      // Running into the caller's deadline says nothing about the device
+      if (result.errorKind === 'timeout' && attemptTimeoutMs < timeoutMs) {
+        break
+      }
+      if (isConnectionFailure(result)) {
+        recordConnectionFailure(device.baseUrl)
+        if (getCircuitState(device.baseUrl).open) break
+      } else {
+        recordSuccess(device.baseUrl)
+      }
+
+      if (result.success || !isRetryable(result)) break
+    }
+  } finally {
+    if (probe) endProbe(device.baseUrl)
+  }
+
+  return result
+}
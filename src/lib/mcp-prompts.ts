@@ -0,0 +1,198 @@
+/**
+ * MCP prompts for recurring voice workflows
+ *
+ *   start_coding_agent     create_terminal_session + spawn_claude_mini on a repo
+ *   diagnose_browser_page  get_snapshot + get_console_logs on the webview
+ *   run_pipeline_preset    run a toolkit pipeline preset in a terminal
+ *
+ * Each prompt is filled in from live data when it is fetched (existing
+ * sessions and agents, recent console errors, the preset definition from the
+ * toolkit), so the text never goes stale. Device-dependent lookups that fail
+ * are noted in the text instead of failing the prompt.
+ */
+
+import { completable } from '@modelcontextprotocol/sdk/server/completable.js'
+import type { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js'
+import { z } from 'zod'
+import { listAgentEntries } from './agent-status'
+import { loadDevices } from './devices'
+import { iview } from './iview-client'
+import { sanitizeOutput } from './output-sanitizer'
+import { fetchToolkitSection } from './toolkit-client'
+
+// Console errors quoted in diagnose_browser_page
+const CONSOLE_ERROR_LIMIT = 10
+
+type Preset = Record<string, unknown> & { name?: string }
+
+const deviceArgument = completable(
+  z.string().optional().describe('Registered device name or tag. Defaults to the default machine.'),
+  async (value) => (await loadDevices()).map((device) => device.name).filter((name) => name.startsWith(value || ''))
+)
+
+const userMessage = (text: string) => ({
+  messages: [{ role: 'user' as const, content: { type: 'text' as const, text } }],
+})
+
+const deviceNote = (device: string | undefined) => (device ? `, device "${device}"` : '')
+
+const numbered = (steps: string[]) => steps.map((step, index) => `${index + 1}. ${step}`).join('\n')
+
+const bulletList = (items: string[], empty: string) => (items.length ? items.map((item) => `- ${item}`).join('\n') : empty)
+
+// Toolkit presets come as a list of { name, ... } or a map keyed by name
+function readPresets(toolkit: Record<string, unknown>): Preset[] {
+  const presets = toolkit.presets
+  if (Array.isArray(presets)) {
+    return presets.filter((preset): preset is Preset => Boolean(preset) && typeof preset === 'object')
+  }
+  if (presets && typeof presets === 'object') {
+    return Object.entries(presets as Record<string, unknown>).map(([name, preset]) => ({
+      name,
+      ...(preset && typeof preset === 'object' ? (preset as Record<string, unknown>) : { value: preset }),
+    }))
+  }
+  return []
+}
+
+async function sessionNames(device: string | undefined): Promise<string[] | null> {
+  const result = await iview.listSessions({ device, retries: 0 })
+  if (!result.success) return null
+  const sessions = Array.isArray(result.data) ? result.data : result.data?.sessions || []
+  return sessions.map((session) => session.name || session.id).filter((name): name is string => Boolean(name))
+}
+
+async function terminalStates(device: string | undefined): Promise<string[] | null> {
+  const result = await iview.listTerminals({ device, retries: 0 })
+  if (!result.success) return null
+  const terminals = Array.isArray(result.data) ? result.data : result.data?.terminals || []
+  return terminals.map((terminal) => `${terminal.name || terminal.id} (${terminal.state || 'unknown'})`)
+}
+
+/**
+ * Register the workflow prompts. Call from the server setup callback.
+ */
+export function registerPrompts(server: McpServer) {
+  server.registerPrompt(
+    'start_coding_agent',
+    {
+      title: 'Start a coding agent',
+      description: 'Open a terminal session on a repository and start a Claude mini agent in it',
+      argsSchema: {
+        repo: z.string().describe('Path to the repository on the device'),
+        task: z.string().optional().describe('First message for the agent'),
+        name: z.string().optional().describe('Session name (default: the repository folder name)'),
+        device: deviceArgument,
+      },
+    },
+    async ({ repo, task, name, device }) => {
+      const session = name || repo.replace(/\/+$/, '').split('/').pop() || repo
+      const [sessions, agents] = await Promise.all([sessionNames(device), listAgentEntries(device)])
+      const taken = sessions?.includes(session)
+
+      const agentLines = (agents || []).map((agent) => `${agent.terminal ?? agent.name ?? agent.id}: ${agent.state ?? 'unknown'}`)
+      const steps = [
+        ...(taken ? [] : [`Call create_terminal_session with name "${session}" and workingDirectory "${repo}".`]),
+        `Call spawn_claude_mini with terminal "${session}" and cwd "${repo}"${task ? `, firstMessage: ${JSON.stringify(task)}` : ''}.`,
+        `Call get_claude_agent_status with terminal "${session}" to confirm the agent is up${task ? ' and has picked up the task' : ''}.`,
+      ]
+      return userMessage([
+        `Start a Claude coding agent on ${repo}${deviceNote(device)}.`,
+        ...(taken ? [`A session named "${session}" already exists. Unless it belongs to another repository, reuse it.`] : []),
+        '',
+        numbered(steps),
+        '',
+        'Existing sessions:',
+        sessions ? bulletList(sessions, '(none)') : '(could not reach the device)',
+        '',
+        'Running agents:',
+        agents ? bulletList(agentLines, '(none)') : '(could not list agents)',
+      ].join('\n'))
+    }
+  )
+
+  server.registerPrompt(
+    'diagnose_browser_page',
+    {
+      title: 'Diagnose the browser page',
+      description: 'Inspect the i-View webview and its console errors and explain what is wrong',
+      argsSchema: {
+        url: z.string().optional().describe('Navigate here first (default: the page already open)'),
+        symptom: z.string().optional().describe('What looks wrong, in the user\'s words'),
+        device: deviceArgument,
+      },
+    },
+    async ({ url, symptom, device }) => {
+      const logs = await iview.consoleLogs({ level: 'error' }, { device, retries: 0 })
+      const entries = logs.success ? (Array.isArray(logs.data) ? logs.data : logs.data?.logs || []) : null
+      const recent = entries ? sanitizeOutput(entries.slice(-CONSOLE_ERROR_LIMIT)).value : null
+
+      return userMessage([
+        `Diagnose the page in the i-View browser${deviceNote(device)}.${symptom ? ` Reported problem: ${symptom}` : ''}`,
+        '',
+        numbered([
+          ...(url ? [`Call navigate_browser with url "${url}".`] : []),
+          'Call get_snapshot to see the page and its URL.',
+          'Call get_console_logs with level "error" (then "warn" if that is empty).',
+          'Use query_elements on anything the snapshot or errors point at.',
+          'Report the most likely cause first, then the evidence, then a fix to try.',
+        ]),
+        '',
+        url ? 'Console errors before navigating:' : 'Recent console errors:',
+        recent ? bulletList(recent.map((entry) => (typeof entry === 'string' ? entry : JSON.stringify(entry))), '(none)') : '(could not read the console)',
+      ].join('\n'))
+    }
+  )
+
+  server.registerPrompt(
+    'run_pipeline_preset',
+    {
+      title: 'Run a pipeline preset',
+      description: 'Run a Mahana pipeline preset from the toolkit in a terminal and follow it to completion',
+      argsSchema: {
+        preset: completable(z.string().describe('Preset name (see get_pipeline_reference)'), async (value) => {
+          const presets = readPresets(await fetchToolkitSection('presets'))
+          return presets.map((preset) => String(preset.name)).filter((name) => name.startsWith(value))
+        }),
+        terminal: z.string().optional().describe('Terminal to run it in (default: pick an idle one)'),
+        device: deviceArgument,
+      },
+    },
+    async ({ preset, terminal, device }) => {
+      const [presetSection, stageSection, terminals] = await Promise.all([
+        fetchToolkitSection('presets'),
+        fetchToolkitSection('pipeline_stages'),
+        terminalStates(device),
+      ])
+      const presets = readPresets(presetSection)
+      const definition = presets.find((entry) => entry.name === preset)
+      if (!definition) {
+        throw new Error(`Unknown preset "${preset}". Available: ${presets.map((entry) => entry.name).join(', ') || 'none'}`)
+      }
+
+      return userMessage([
+        `Run the Mahana pipeline preset "${preset}"${terminal ? ` in terminal "${terminal}"` : ''}${deviceNote(device)}.`,
+        '',
+        'Preset definition from the toolkit:',
+        '```json',
+        JSON.stringify(definition, null, 2),
+        '```',
+        '',
+        'Pipeline stages:',
+        '```json',
+        JSON.stringify(stageSection.pipeline_stages ?? null, null, 2),
+        '```',
+        '',
+        numbered([
+          'Work out the command for this preset from the definition (use get_cli_reference if it only names stages).',
+          `Call run_terminal_command with it${terminal ? ` and terminal "${terminal}"` : ' in an idle terminal'}.`,
+          'Follow it with wait_for_terminal_output (untilStateChange) or check_command_status until it finishes.',
+          'Report what ran, whether it succeeded, and the cost if the stages list one.',
+        ]),
+        '',
+        'Terminals:',
+        terminals ? bulletList(terminals, '(none)') : '(could not reach the device)',
+      ].join('\n'))
+    }
+  )
+}
@@ -0,0 +1,238 @@
+/**
+ * MCP resources: context clients can browse and attach without a tool call
+ *
+ *   session-memory://{device}/{session}                  SESSION_MEMORY.md from /quick/memory
+ *   toolkit://{section}                                  a get_system_toolkit section
+ *   agent-memory://{agentId}/{conversationId}/{userId}/{key}
+ *                                                        one agent_memory row ("_" = unscoped)
+ *   data-path://{type}                                   a lookup_data_path entry
+ *
+ * All four are templates with list callbacks, so resources/list enumerates
+ * what exists right now. Clients may subscribe to a URI; store_memory and
+ * forget_memory then send notifications/resources/updated for it, and
+ * resource-changing tools send notifications/resources/list_changed. Both
+ * only reach clients holding a stream open to this instance (SSE, or a
+ * streamable HTTP request still in flight) - there is no shared state for
+ * subscriptions across serverless instances.
+ */
+
+import { ResourceTemplate, type McpServer } from '@modelcontextprotocol/sdk/server/mcp.js'
+import { SubscribeRequestSchema, UnsubscribeRequestSchema } from '@modelcontextprotocol/sdk/types.js'
+import { MEMORY_TABLE, scopeColumns, type MemoryScope } from './agent-memory'
+import { loadDevices } from './devices'
+import { iview } from './iview-client'
+import { getSupabase, isSupabaseConfigured } from './supabase'
+import { fetchToolkitSection } from './toolkit-client'
+
+export const TOOLKIT_SECTIONS = [
+  'apis',
+  'cli',
+  'imports',
+  'supabase',
+  'costs',
+  'transforms',
+  'pipeline_stages',
+  'presets',
+  'data_paths',
+  'env_vars',
+  'all',
+] as const
+
+export const DATA_PATH_TYPES = [
+  'golden_records',
+  'scraped_data',
+  'text_corpus',
+  'embeddings',
+  'all_images',
+  'brreg_data',
+  'musicians',
+  'dossiers',
+] as const
+
+// Stands in for an empty scope column in agent-memory URIs
+const UNSCOPED = '_'
+
+// Newest memories listed by resources/list (all remain readable by URI)
+const MEMORY_LIST_LIMIT = 200
+
+// URIs each connected server has subscribed to
+const subscriptions = new WeakMap<McpServer, Set<string>>()
+
+type Variables = Record<string, string | string[]>
+
+// Template variables arrive still percent-encoded
+function variable(variables: Variables, name: string): string {
+  const value = variables[name]
+  return decodeURIComponent(Array.isArray(value) ? value[0] : value)
+}
+
+const segment = (value: string | undefined) => encodeURIComponent(value || UNSCOPED)
+const unscoped = (value: string) => (value === UNSCOPED ? undefined : value)
+
+export function memoryResourceUri(key: string, scope: MemoryScope): string {
+  return `agent-memory://${segment(scope.agentId)}/${segment(scope.conversationId)}/${segment(scope.userId)}/${encodeURIComponent(key)}`
+}
+
+const json = (uri: URL, data: unknown) => ({
+  contents: [{ uri: uri.href, mimeType: 'application/json', text: JSON.stringify(data, null, 2) }],
+})
+
+async function listSessionResources() {
+  const devices = await loadDevices()
+  const perDevice = await Promise.all(devices.map(async (device) => {
+    const result = await iview.listSessions({ device: device.name, retries: 0 })
+    if (!result.success) return []
+    const sessions = Array.isArray(result.data) ? result.data : result.data?.sessions || []
+    return sessions
+      .map((session) => session.id || session.name)
+      .filter((session): session is string => Boolean(session))
+      .map((session) => ({
+        uri: `session-memory://${encodeURIComponent(device.name)}/${encodeURIComponent(session)}`,
+        name: devices.length > 1 ? `${device.name}: ${session}` : session,
+        mimeType: 'text/markdown',
+      }))
+  }))
+  return { resources: perDevice.flat() }
+}
+
+async function listMemoryResources() {
+  if (!isSupabaseConfigured()) {
+    return { resources: [] }
+  }
+  const { data, error } = await getSupabase()
+    .from(MEMORY_TABLE)
+    .select('key, category, agent_id, conversation_id, user_id')
+    .or(`expires_at.is.null,expires_at.gt.${new Date().toISOString()}`)
+    .order('updated_at', { ascending: false })
+    .limit(MEMORY_LIST_LIMIT)
+  if (error) {
+    throw new Error(`Could not list memories: ${error.message}`)
+  }
+  return {
+    resources: (data || []).map((row) => ({
+      uri: memoryResourceUri(row.key, { agentId: row.agent_id, conversationId: row.conversation_id, userId: row.user_id }),
+      name: row.key,
+      description: [row.category, row.agent_id && `agent ${row.agent_id}`, row.conversation_id && `conversation ${row.conversation_id}`, row.user_id && `user ${row.user_id}`]
+        .filter(Boolean)
+        .join(', '),
+      mimeType: 'text/plain',
+    })),
+  }
+}
+
+/**
+ * Register the resource templates and subscription handlers. Call from the
+ * server setup callback, before the transport connects.
+ */
+export function registerResources(server: McpServer) {
+  server.server.registerCapabilities({ resources: { subscribe: true, listChanged: true } })
+  subscriptions.set(server, new Set())
+  server.server.setRequestHandler(SubscribeRequestSchema, async (request) => {
+    subscriptions.get(server)?.add(request.params.uri)
+    return {}
+  })
+  server.server.setRequestHandler(UnsubscribeRequestSchema, async (request) => {
+    subscriptions.get(server)?.delete(request.params.uri)
+    return {}
+  })
+
+  server.registerResource(
+    'session-memory',
+    new ResourceTemplate('session-memory://{device}/{session}', { list: listSessionResources }),
+    { description: 'Compiled session memory (SESSION_MEMORY.md) for an i-View session', mimeType: 'text/markdown' },
+    async (uri, variables) => {
+      const session = variable(variables, 'session')
+      const result = await iview.sessionMemory({ terminal: session }, { device: variable(variables, 'device') })
+      if (!result.success) {
+        throw new Error(result.error || `Could not read session memory for ${session}`)
+      }
+      return {
+        contents: [{ uri: uri.href, mimeType: 'text/markdown', text: result.data?.memory ?? result.data?.content ?? '' }],
+      }
+    }
+  )
+
+  server.registerResource(
+    'toolkit',
+    new ResourceTemplate('toolkit://{section}', {
+      list: () => ({
+        resources: TOOLKIT_SECTIONS.map((section) => ({ uri: `toolkit://${section}`, name: `Toolkit: ${section}`, mimeType: 'application/json' })),
+      }),
+      complete: { section: (value) => TOOLKIT_SECTIONS.filter((section) => section.startsWith(value)) },
+    }),
+    { description: 'A section of the Mahana system toolkit (same data as get_system_toolkit)', mimeType: 'application/json' },
+    async (uri, variables) => {
+      const section = variable(variables, 'section')
+      if (!(TOOLKIT_SECTIONS as readonly string[]).includes(section)) {
+        throw new Error(`Unknown toolkit section: ${section}`)
+      }
+      return json(uri, await fetchToolkitSection(section))
+    }
+  )
+
+  server.registerResource(
+    'agent-memory',
+    new ResourceTemplate('agent-memory://{agentId}/{conversationId}/{userId}/{key}', { list: listMemoryResources }),
+    { description: `A stored memory in its exact namespace ("${UNSCOPED}" for an unscoped level)`, mimeType: 'text/plain' },
+    async (uri, variables) => {
+      const key = variable(variables, 'key')
+      const scope = {
+        agentId: unscoped(variable(variables, 'agentId')),
+        conversationId: unscoped(variable(variables, 'conversationId')),
+        userId: unscoped(variable(variables, 'userId')),
+      }
+      const { data, error } = await getSupabase()
+        .from(MEMORY_TABLE)
+        .select('value, expires_at')
+        .match({ ...scopeColumns(scope), key })
+        .maybeSingle()
+      if (error) {
+        throw new Error(`Could not read memory: ${error.message}`)
+      }
+      if (!data || (data.expires_at && Date.parse(data.expires_at) <= Date.now())) {
+        throw new Error(`No memory ${key} in that namespace`)
+      }
+      return { contents: [{ uri: uri.href, mimeType: 'text/plain', text: String(data.value) }] }
+    }
+  )
+
+  server.registerResource(
+    'data-path',
+    new ResourceTemplate('data-path://{type}', {
+      list: () => ({
+        resources: DATA_PATH_TYPES.map((type) => ({ uri: `data-path://${type}`, name: `Data path: ${type}`, mimeType: 'application/json' })),
+      }),
+      complete: { type: (value) => DATA_PATH_TYPES.filter((type) => type.startsWith(value)) },
+    }),
+    { description: 'Where a kind of Mahana data is stored (same data as lookup_data_path)', mimeType: 'application/json' },
+    async (uri, variables) => {
+      const type = variable(variables, 'type')
+      const data = await fetchToolkitSection('data_paths')
+      const paths = (data.data_paths || {}) as Record<string, unknown>
+      if (!(type in paths)) {
+        throw new Error(`Unknown data path type: ${type}`)
+      }
+      return json(uri, { type, path: paths[type] })
+    }
+  )
+}
+
+/**
+ * Tell connected clients that resources changed: resources/updated for each
+ * given URI they subscribed to, then resources/list_changed. Best effort -
+ * without an open stream there is nobody to tell.
+ */
+export async function notifyResourcesChanged(server: McpServer, uris: string[] = []) {
+  if (!server.isConnected()) return
+  const subscribed = subscriptions.get(server)
+  try {
+    for (const uri of uris) {
+      if (subscribed?.has(uri)) {
+        await server.server.sendResourceUpdated({ uri })
+      }
+    }
+    server.sendResourceListChanged()
+  } catch (err) {
+    console.warn(`[MCP] Resource notification failed: ${err instanceof Error ? err.message : err}`)
+  }
+}
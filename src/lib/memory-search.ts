@@ -0,0 +1,256 @@
+/**
+ * Local full-text ranking for agent memories
+ *
+ * BM25 over key + category + value, computed in-process so search_memory
+ * needs no embedding service. Text is tokenized, stripped of English and
+ * Norwegian stopwords and stemmed. Each document is stemmed in its detected
+ * language; query terms are matched against both stemmings so a Norwegian
+ * note can be found from an English question that shares names and terms.
+ */
+
+export interface SearchableMemory {
+  key: string
+  value: string
+  category?: string | null
+}
+
+export interface MemorySearchHit<T extends SearchableMemory> {
+  memory: T
+  score: number
+  snippet: string
+  matchedTerms: string[]
+}
+
+type Language = 'en' | 'no'
+
+// BM25 parameters (standard defaults)
+const K1 = 1.2
+const B = 0.75
+
+// Key tokens count this many times - a key naming the topic is a strong signal
+const KEY_BOOST = 2
+
+const SNIPPET_CHARS = 160
+
+const STOPWORDS: Record<Language, Set<string>> = {
+  en: new Set([
+    'a', 'about', 'an', 'and', 'are', 'as', 'at', 'be', 'but', 'by', 'did', 'do', 'does', 'for', 'from',
+    'had', 'has', 'have', 'he', 'her', 'his', 'i', 'if', 'in', 'is', 'it', 'its', 'me', 'my', 'of', 'on',
+    'or', 'our', 'say', 'said', 'she', 'so', 'that', 'the', 'their', 'them', 'there', 'they', 'this', 'to',
+    'was', 'we', 'were', 'what', 'when', 'where', 'which', 'who', 'why', 'will', 'with', 'you', 'your',
+  ]),
+  no: new Set([
+    'alle', 'at', 'av', 'da', 'de', 'dem', 'den', 'der', 'det', 'deg', 'du', 'eg', 'ei', 'ein', 'eller',
+    'en', 'er', 'et', 'ett', 'for', 'fra', 'ha', 'han', 'har', 'hun', 'hva', 'hvor', 'i', 'ikke', 'jeg',
+    'kan', 'man', 'med', 'meg', 'men', 'min', 'mitt', 'må', 'noe', 'når', 'og', 'om', 'på', 'sa', 'seg',
+    'sin', 'skal', 'som', 'så', 'til', 'var', 'vi', 'vil', 'å',
+  ]),
+}
+
+// Lowercased Latin letters (incl. æøå and accents) and digits
+const TOKEN_SPLIT = /[^a-z0-9\u00c0-\u024f]+/
+
+export function tokenize(text: string): string[] {
+  return text
+    .normalize('NFC')
+    .toLowerCase()
+    .split(TOKEN_SPLIT)
+    .filter((token) => token.length > 0)
+}
+
+// Guess the language from stopword hits and Norwegian letters
+export function detectLanguage(tokens: string[]): Language {
+  let en = 0
+  let no = 0
+  for (const token of tokens) {
+    if (STOPWORDS.en.has(token)) en++
+    if (STOPWORDS.no.has(token)) no++
+    if (/[æøå]/.test(token)) no += 2
+  }
+  return no > en ? 'no' : 'en'
+}
+
+const EN_VOWEL = /[aeiouy]/
+
+// Light English stemmer (Porter step 1 plus common derivational suffixes)
+export function stemEnglish(word: string): string {
+  if (word.length <= 3) return word
+  let stem = word
+
+  if (stem.endsWith('sses')) stem = stem.slice(0, -2)
+  else if (stem.endsWith('ies')) stem = `${stem.slice(0, -3)}y`
+  else if (stem.endsWith('s') && !/(ss|us|is)$/.test(stem)) stem = stem.slice(0, -1)
+
+  for (const suffix of ['ingly', 'edly', 'ing', 'ed']) {
+    if (stem.endsWith(suffix) && EN_VOWEL.test(stem.slice(0, -suffix.length))) {
+      stem = stem.slice(0, -suffix.length)
+      // hopping -> hop, but keep fall, miss, buzz
+      if (/([^aeiouylsz])\1$/.test(stem)) stem = stem.slice(0, -1)
+      break
+    }
+  }
+
+  for (const [suffix, replacement] of [
+    ['ational', 'ate'], ['ization', 'ize'], ['fulness', 'ful'], ['iveness', 'ive'],
+    ['ousness', 'ous'], ['ment', ''], ['ness', ''], ['ly', ''],
+  ] as const) {
+    if (stem.endsWith(suffix) && stem.length - suffix.length >= 3) {
+      stem = stem.slice(0, -suffix.length) + replacement
+      break
+    }
+  }
+
+  if (stem.endsWith('y') && stem.length > 3 && !EN_VOWEL.test(stem.charAt(stem.length - 2))) {
+    stem = `${stem.slice(0, -1)}i`
+  }
+
+  return stem
+}
+
+const NO_VOWELS = 'aeiouyæåø'
+
+// Snowball R1: after the first non-vowel following a vowel, at least 3 letters in
+function norwegianR1(word: string): number {
+  for (let i = 1; i < word.length; i++) {
+    if (!NO_VOWELS.includes(word[i]) && NO_VOWELS.includes(word[i - 1])) {
+      return Math.max(i + 1, 3)
+    }
+  }
+  return word.length
+}
+
+const NO_STEP1_SUFFIXES = [
+  'hetenes', 'hetene', 'hetens', 'heten', 'heter', 'endes', 'ande', 'ende', 'edes', 'enes', 'erte',
+  'ede', 'ane', 'ene', 'ens', 'ers', 'ets', 'het', 'ast', 'ert', 'en', 'ar', 'er', 'as', 'es', 'et', 'a', 'e',
+]
+const NO_STEP3_SUFFIXES = ['hetslov', 'eleg', 'elig', 'elov', 'slov', 'leg', 'eig', 'lig', 'els', 'lov', 'ig']
+
+// Norwegian Snowball stemmer (bokmål)
+export function stemNorwegian(word: string): string {
+  const r1 = norwegianR1(word)
+  let stem = word
+
+  const step1 = NO_STEP1_SUFFIXES.find((suffix) => stem.endsWith(suffix) && stem.length - suffix.length >= r1)
+  if (step1) {
+    stem = step1 === 'erte' || step1 === 'ert' ? `${stem.slice(0, -step1.length)}er` : stem.slice(0, -step1.length)
+  } else if (stem.endsWith('s') && stem.length - 1 >= r1 && /([bcdfghjlmnoprtvyz]|[^aeiouyæåø]k)s$/.test(stem)) {
+    stem = stem.slice(0, -1)
+  }
+
+  if (/[dv]t$/.test(stem) && stem.length - 1 >= r1) {
+    stem = stem.slice(0, -1)
+  }
+
+  const step3 = NO_STEP3_SUFFIXES.find((suffix) => stem.endsWith(suffix) && stem.length - suffix.length >= r1)
+  if (step3) {
+    stem = stem.slice(0, -step3.length)
+  }
+
+  return stem
+}
+
+function stem(token: string, language: Language): string {
+  return language === 'no' ? stemNorwegian(token) : stemEnglish(token)
+}
+
+function analyze(text: string, language?: Language): { terms: string[]; language: Language } {
+  const tokens = tokenize(text)
+  const detected = language || detectLanguage(tokens)
+  const terms = tokens
+    .filter((token) => !STOPWORDS.en.has(token) && !STOPWORDS.no.has(token))
+    .map((token) => stem(token, detected))
+  return { terms, language: detected }
+}
+
+function buildSnippet(value: string, queryTokens: string[]): string {
+  if (value.length <= SNIPPET_CHARS) {
+    return value
+  }
+
+  // Center the window on the first query word that appears in the text
+  const lower = value.toLowerCase()
+  const positions = queryTokens
+    .map((token) => lower.indexOf(token.length > 4 ? token.slice(0, -1) : token))
+    .filter((position) => position >= 0)
+  const anchor = positions.length > 0 ? Math.min(...positions) : 0
+
+  const start = Math.max(0, anchor - Math.floor(SNIPPET_CHARS / 3))
+  const end = Math.min(value.length, start + SNIPPET_CHARS)
+  return `${start > 0 ? '…' : ''}${value.slice(start, end).trim()}${end < value.length ? '…' : ''}`
+}
+
+/**
+ * Rank memories against a free-text query. Returns hits with a score above
+ * zero, best first.
+ */
+export function rankMemories<T extends SearchableMemory>(
+  query: string,
+  memories: T[],
+  options: { limit?: number; minScore?: number } = {}
+): MemorySearchHit<T>[] {
+  const { limit = 5, minScore = 0 } = options
+
+  const queryTokens = tokenize(query).filter((token) => !STOPWORDS.en.has(token) && !STOPWORDS.no.has(token))
+  if (queryTokens.length === 0 || memories.length === 0) {
+    return []
+  }
+  // Each query word may match either stemming
+  const queryAlternatives = [...new Set(queryTokens)].map((token) => ({
+    token,
+    stems: [...new Set([stemEnglish(token), stemNorwegian(token)])],
+  }))
+
+  const documents = memories.map((memory) => {
+    const body = analyze(`${memory.category || ''} ${memory.value}`)
+    const key = analyze(memory.key.replace(/[_\-.]/g, ' '), body.language)
+    const terms = [...Array.from({ length: KEY_BOOST }, () => key.terms).flat(), ...body.terms]
+    const frequencies = new Map<string, number>()
+    for (const term of terms) {
+      frequencies.set(term, (frequencies.get(term) || 0) + 1)
+    }
+    return { memory, length: terms.length, frequencies }
+  })
+
+  const averageLength = documents.reduce((sum, doc) => sum + doc.length, 0) / documents.length || 1
+  const documentFrequency = new Map<string, number>()
+  for (const doc of documents) {
+    for (const term of doc.frequencies.keys()) {
+      documentFrequency.set(term, (documentFrequency.get(term) || 0) + 1)
+    }
+  }
+
+  const idf = (term: string) => {
+    const df = documentFrequency.get(term) || 0
+    return Math.log(1 + (documents.length - df + 0.5) / (df + 0.5))
+  }
+
+  return documents
+    .map((doc) => {
+      let score = 0
+      const matchedTerms: string[] = []
+
+      for (const { token, stems } of queryAlternatives) {
+        let best = 0
+        for (const term of stems) {
+          const tf = doc.frequencies.get(term) || 0
+          if (tf === 0) continue
+          const termScore = idf(term) * (tf * (K1 + 1)) / (tf + K1 * (1 - B + B * doc.length / averageLength))
+          best = Math.max(best, termScore)
+        }
+        if (best > 0) {
+          score += best
+          matchedTerms.push(token)
+        }
+      }
+
+      return {
+        memory: doc.memory,
+        score: Math.round(score * 1000) / 1000,
+        snippet: buildSnippet(doc.memory.value, matchedTerms),
+        matchedTerms,
+      }
+    })
+    .filter((hit) => hit.score > minScore)
+    .sort((a, b) => b.score - a.score)
+    .slice(0, limit)
+}
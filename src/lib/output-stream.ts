@@ -0,0 +1,170 @@
+/**
+ * Stream terminal output as MCP notifications
+ *
+ * Polls i-View's scrollback and forwards each batch of new lines to the
+ * client as it appears:
+ *   - notifications/progress (when the client sent a progressToken)
+ *   - notifications/message  (logger "terminal", level info)
+ * Streaming stops on a completion check (e.g. a job's exit marker), after
+ * idleTimeoutMs without new output, at maxDurationMs or the tool call's
+ * deadline, or when the request is cancelled. The caller gets every
+ * collected line (raw) and the stop reason; notifications carry sanitized
+ * lines (see output-sanitizer.ts).
+ */
+
+import { iview } from './iview-client'
+import { extractLines, stripMarkerLines } from './command-jobs'
+import { sanitizeOutput } from './output-sanitizer'
+import { REQUEST_BUDGET_MS, remainingMs, requestDeadline } from './request-deadline'
+
+export type StreamStopReason = 'completed' | 'idle_timeout' | 'max_duration' | 'cancelled'
+
+// Subset of the MCP SDK's RequestHandlerExtra used for streaming
+export interface StreamContext {
+  signal: AbortSignal
+  _meta?: { progressToken?: string | number }
+  sendNotification(
+    notification:
+      | { method: 'notifications/progress'; params: { progressToken: string | number; progress: number; message?: string } }
+      | { method: 'notifications/message'; params: { level: 'info'; logger?: string; data: unknown } }
+  ): Promise<void>
+}
+
+export interface StreamResult {
+  // New lines seen while streaming (marker lines removed)
+  lines: string[]
+  // Last scrollback snapshot, for callers that parse it themselves
+  snapshot: string[]
+  stopReason: StreamStopReason
+  chunks: number
+  durationMs: number
+}
+
+const SCROLLBACK_LINES = 500
+const DEFAULT_POLL_INTERVAL_MS = 750
+const DEFAULT_IDLE_TIMEOUT_MS = 10_000
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms))
+
+/**
+ * Lines in `next` that were not in `previous`. Both are windows over the
+ * same scrollback, so the longest suffix of `previous` that is a prefix of
+ * `next` is the overlap. The last line of `previous` is left out of the
+ * match since it may still have been growing (a prompt gaining a command);
+ * it is only reported again if it changed.
+ */
+export function diffNewLines(previous: string[], next: string[]): string[] {
+  const settled = previous.slice(0, -1)
+  const lastPrevious = previous[previous.length - 1]
+
+  for (let overlap = Math.min(settled.length, next.length); overlap >= 0; overlap--) {
+    let matches = true
+    for (let i = 0; i < overlap; i++) {
+      if (settled[settled.length - overlap + i] !== next[i]) {
+        matches = false
+        break
+      }
+    }
+    // With nothing settled to match on, only a shared first line proves continuity
+    if (matches && (overlap > 0 || settled.length === 0)) {
+      const fresh = next.slice(overlap)
+      return fresh[0] === lastPrevious ? fresh.slice(1) : fresh
+    }
+  }
+  return next
+}
+
+async function readScrollback(terminal: string | null | undefined, device: string | null | undefined, deadline: number): Promise<string[] | null> {
+  const result = await iview.terminalOutput(
+    { lines: SCROLLBACK_LINES, terminal: terminal || undefined },
+    // The next poll is the retry
+    { device, retries: 0, deadline }
+  )
+  return result.success ? extractLines(result.data) : null
+}
+
+export async function streamTerminalOutput(options: {
+  device?: string | null
+  terminal?: string | null
+  context: StreamContext
+  // Scrollback already seen by the caller; only lines after it are streamed
+  baseline?: string[]
+  isComplete?: (snapshot: string[]) => boolean
+  idleTimeoutMs?: number
+  maxDurationMs?: number
+  pollIntervalMs?: number
+  // From requestDeadline() when the tool call started (default: now)
+  deadline?: number
+}): Promise<StreamResult> {
+  const {
+    device,
+    terminal,
+    context,
+    isComplete,
+    idleTimeoutMs = DEFAULT_IDLE_TIMEOUT_MS,
+    pollIntervalMs = DEFAULT_POLL_INTERVAL_MS,
+  } = options
+  const deadline = options.deadline ?? requestDeadline()
+  const progressToken = context._meta?.progressToken
+
+  const startedAt = Date.now()
+  const stopAt = Math.min(startedAt + (options.maxDurationMs ?? REQUEST_BUDGET_MS), deadline)
+  let lastOutputAt = startedAt
+  let snapshot = options.baseline ?? (await readScrollback(terminal, device, deadline)) ?? []
+  const lines: string[] = []
+  let chunks = 0
+
+  const finish = (stopReason: StreamStopReason): StreamResult => ({
+    lines,
+    snapshot,
+    stopReason,
+    chunks,
+    durationMs: Date.now() - startedAt,
+  })
+
+  if (isComplete?.(snapshot)) {
+    return finish('completed')
+  }
+
+  while (true) {
+    if (context.signal.aborted) return finish('cancelled')
+    if (Date.now() >= stopAt) return finish('max_duration')
+    if (Date.now() - lastOutputAt >= idleTimeoutMs) return finish('idle_timeout')
+
+    await sleep(Math.min(pollIntervalMs, remainingMs(stopAt)))
+
+    const next = await readScrollback(terminal, device, deadline)
+    if (!next) continue
+
+    const fresh = stripMarkerLines(diffNewLines(snapshot, next))
+    snapshot = next
+
+    if (fresh.length > 0) {
+      lines.push(...fresh)
+      chunks++
+      lastOutputAt = Date.now()
+
+      // Notifications skip the response's sanitizing, so clean them here
+      const { value: visible } = sanitizeOutput(fresh)
+      try {
+        if (progressToken !== undefined) {
+          await context.sendNotification({
+            method: 'notifications/progress',
+            params: { progressToken, progress: lines.length, message: visible.join('\n') }
+          })
+        }
+        await context.sendNotification({
+          method: 'notifications/message',
+          params: { level: 'info', logger: 'terminal', data: { device: device ?? null, terminal: terminal ?? null, lines: visible } }
+        })
+      } catch (err) {
+        // A client that can't take notifications still gets the final result
+        console.error('[MCP] Failed to send output notification', err)
+      }
+    }
+
+    if (isComplete?.(snapshot)) {
+      return finish('completed')
+    }
+  }
+}
@@ -0,0 +1,21 @@
+/**
+ * Time budget for one tool call
+ *
+ * The MCP route runs with maxDuration 60s. Tools that wait or poll take one
+ * deadline when the call starts and pass it down - into their own loops and
+ * as `deadline` on every i-View call, which caps each request's timeout and
+ * its retries - so nothing they do can run past the point where the result
+ * still gets sent.
+ */
+
+// The route's 60s maxDuration, minus time to build and send the result
+export const REQUEST_BUDGET_MS = 55_000
+
+// Epoch ms by which a tool call started now must have its result ready
+export function requestDeadline(budgetMs = REQUEST_BUDGET_MS): number {
+  return Date.now() + budgetMs
+}
+
+export function remainingMs(deadline: number): number {
+  return Math.max(0, deadline - Date.now())
+}
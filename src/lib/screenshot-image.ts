@@ -0,0 +1,230 @@
+/**
+ * Screenshots as MCP image content
+ *
+ * i-View returns screenshots as base64 inside JSON (as `image` or `base64`,
+ * sometimes a data URL). Tools send them on as an MCP `image` content part
+ * with its MIME type, next to a small text part with the metadata (URL,
+ * viewport, preset, size).
+ *
+ * Optional server-side processing, in this order, uses sharp:
+ *   - crop to a selector's bounding box (CSS pixels, scaled to the image)
+ *   - downscale to maxWidth
+ *   - re-encode as JPEG at falling quality, then smaller sizes, until the
+ *     image fits maxBytes (decoded bytes, not base64)
+ */
+
+import { iview } from './iview-client'
+
+export interface ImageContent {
+  type: 'image'
+  data: string
+  mimeType: string
+}
+
+export interface ScreenshotOptions {
+  selector?: string
+  maxWidth?: number
+  maxBytes?: number
+  preset?: string
+  device?: string
+}
+
+interface Box {
+  x: number
+  y: number
+  width: number
+  height: number
+}
+
+type Payload = Record<string, unknown>
+
+const JPEG_QUALITIES = [80, 65, 50, 35]
+const MIN_BUDGET_WIDTH = 320
+
+const SIGNATURES: [string, string][] = [
+  ['iVBORw0KGgo', 'image/png'],
+  ['/9j/', 'image/jpeg'],
+  ['UklGR', 'image/webp'],
+  ['R0lGOD', 'image/gif'],
+]
+
+// Base64 and MIME type from a screenshot payload, or null when it has no image
+function readImage(data: Payload): { base64: string; mimeType: string } | null {
+  const raw = [data.image, data.base64, data.data].find((value): value is string => typeof value === 'string' && value.length > 0)
+  if (!raw) return null
+
+  const dataUrl = raw.match(/^data:([^;,]+);base64,([\s\S]*)$/)
+  const base64 = dataUrl ? dataUrl[2] : raw
+  const declared = typeof data.mimeType === 'string'
+    ? data.mimeType
+    : typeof data.format === 'string' ? `image/${data.format === 'jpg' ? 'jpeg' : data.format}` : null
+  const sniffed = SIGNATURES.find(([prefix]) => base64.startsWith(prefix))?.[1]
+  return { base64, mimeType: dataUrl?.[1] || sniffed || declared || 'image/png' }
+}
+
+function readViewport(data: Payload): { width: number; height: number } | null {
+  const viewport = data.viewport as Payload | undefined
+  const width = Number(viewport?.width ?? data.viewportWidth)
+  const height = Number(viewport?.height ?? data.viewportHeight)
+  return width > 0 && height > 0 ? { width, height } : null
+}
+
+// i-View element entries put their box under one of these names
+function elementBox(element: unknown): Box | null {
+  const entry = element as Payload | null
+  const box = (entry?.rect ?? entry?.boundingBox ?? entry?.bounds ?? entry) as Payload | null
+  const [x, y, width, height] = [box?.x ?? box?.left, box?.y ?? box?.top, box?.width, box?.height].map(Number)
+  return [x, y, width, height].every(Number.isFinite) && width > 0 && height > 0 ? { x, y, width, height } : null
+}
+
+async function findBox(selector: string, device: string | undefined): Promise<Box> {
+  const result = await iview.elements({ selector, limit: 1 }, { device })
+  if (!result.success) {
+    throw new Error(result.error || `Could not query ${selector}`)
+  }
+  const elements = Array.isArray(result.data) ? result.data : result.data?.elements || []
+  const box = elementBox(elements[0])
+  if (!box) {
+    throw new Error(elements.length ? `i-View did not report a bounding box for ${selector}` : `No element matches ${selector}`)
+  }
+  return box
+}
+
+async function loadSharp() {
+  try {
+    return (await import('sharp')).default
+  } catch {
+    throw new Error('Image processing is unavailable on this server (sharp failed to load)')
+  }
+}
+
+async function processImage(
+  buffer: Buffer,
+  mimeType: string,
+  data: Payload,
+  options: ScreenshotOptions
+): Promise<{ buffer: Buffer; mimeType: string; width: number; height: number; cropped: boolean; scaled: boolean }> {
+  const sharp = await loadSharp()
+  let image = sharp(buffer)
+  const metadata = await image.metadata()
+  let width = metadata.width || 0
+  let height = metadata.height || 0
+  let cropped = false
+  let scaled = false
+
+  if (options.selector) {
+    const box = await findBox(options.selector, options.device)
+    // Element boxes are in CSS pixels; the image may be at device pixel ratio
+    const viewport = readViewport(data)
+    const ratio = viewport ? width / viewport.width : Number(data.devicePixelRatio) || 1
+    const left = Math.max(0, Math.floor(box.x * ratio))
+    const top = Math.max(0, Math.floor(box.y * ratio))
+    const right = Math.min(width, Math.ceil((box.x + box.width) * ratio))
+    const bottom = Math.min(height, Math.ceil((box.y + box.height) * ratio))
+    if (right <= left || bottom <= top) {
+      throw new Error(`${options.selector} is outside the visible area`)
+    }
+    image = sharp(await image.extract({ left, top, width: right - left, height: bottom - top }).toBuffer())
+    width = right - left
+    height = bottom - top
+    cropped = true
+  }
+
+  if (options.maxWidth && width > options.maxWidth) {
+    height = Math.round(height * (options.maxWidth / width))
+    width = options.maxWidth
+    image = sharp(await image.resize({ width }).toBuffer())
+    scaled = true
+  }
+
+  let output = await image.toBuffer()
+  let outputType = mimeType
+  if (options.maxBytes && output.length > options.maxBytes) {
+    outputType = 'image/jpeg'
+    let attemptWidth = width
+    while (output.length > options.maxBytes) {
+      for (const quality of JPEG_QUALITIES) {
+        output = await image.clone().resize({ width: attemptWidth }).jpeg({ quality }).toBuffer()
+        if (output.length <= options.maxBytes) break
+      }
+      if (output.length <= options.maxBytes || attemptWidth <= MIN_BUDGET_WIDTH) break
+      attemptWidth = Math.max(MIN_BUDGET_WIDTH, Math.round(attemptWidth / 2))
+    }
+    if (attemptWidth !== width) {
+      height = Math.round(height * (attemptWidth / width))
+      width = attemptWidth
+      scaled = true
+    }
+  }
+
+  return { buffer: output, mimeType: outputType, width, height, cropped, scaled }
+}
+
+/**
+ * Turn an i-View screenshot payload into an image part plus metadata. The
+ * image is null when the payload carries none.
+ */
+export async function toImageContent(
+  data: unknown,
+  options: ScreenshotOptions = {}
+): Promise<{ image: ImageContent | null; meta: Payload }> {
+  const payload = (data && typeof data === 'object' ? data : {}) as Payload
+  const found = readImage(payload)
+  const meta: Payload = {
+    url: payload.url ?? null,
+    viewport: readViewport(payload),
+    preset: options.preset ?? payload.preset ?? null,
+  }
+  if (!found) {
+    return { image: null, meta: { ...meta, error: 'No image in the screenshot response' } }
+  }
+
+  if (!options.selector && !options.maxWidth && !options.maxBytes) {
+    return {
+      image: { type: 'image', data: found.base64, mimeType: found.mimeType },
+      meta: {
+        ...meta,
+        mimeType: found.mimeType,
+        width: payload.width ?? null,
+        height: payload.height ?? null,
+        bytes: Buffer.byteLength(found.base64, 'base64'),
+      },
+    }
+  }
+
+  const processed = await processImage(Buffer.from(found.base64, 'base64'), found.mimeType, payload, options)
+  return {
+    image: { type: 'image', data: processed.buffer.toString('base64'), mimeType: processed.mimeType },
+    meta: {
+      ...meta,
+      mimeType: processed.mimeType,
+      width: processed.width,
+      height: processed.height,
+      bytes: processed.buffer.length,
+      ...(processed.cropped ? { selector: options.selector } : {}),
+      ...(processed.scaled ? { scaled: true } : {}),
+      ...(options.maxBytes && processed.buffer.length > options.maxBytes ? { overBudget: true } : {}),
+    },
+  }
+}
+
+/**
+ * Split a snapshot into its screenshot and everything else. The screenshot
+ * sits under `screenshot` (object or bare base64) or at the top level.
+ */
+export function splitSnapshot(data: unknown): { screenshot: Payload | null; rest: unknown } {
+  if (!data || typeof data !== 'object' || Array.isArray(data)) {
+    return { screenshot: null, rest: data }
+  }
+  const { screenshot, image, base64, ...rest } = data as Payload
+  if (screenshot && typeof screenshot === 'object') {
+    return { screenshot: { url: rest.url, viewport: rest.viewport, ...(screenshot as Payload) }, rest }
+  }
+  if (typeof screenshot === 'string') {
+    return { screenshot: { image: screenshot, url: rest.url, viewport: rest.viewport }, rest }
+  }
+  if (image || base64) {
+    return { screenshot: { ...rest, image, base64 }, rest }
+  }
+  return { screenshot: null, rest: data }
+}
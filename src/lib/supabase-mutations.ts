@@ -0,0 +1,264 @@
+/**
+ * Safety rails for supabase_update and supabase_delete
+ *
+ *   - Preview: count and sample the rows a filter matches (dryRun)
+ *   - Blast radius: above MCP_SUPABASE_MAX_AFFECTED_ROWS (default 25) the
+ *     mutation is refused unless the preview's confirmation token is sent back
+ *   - Undo: rows are snapshotted (Supabase MCP_UNDO_TABLE, default
+ *     "mcp_deleted_rows", or a local JSONL file) before they are deleted, so
+ *     restore_deleted_rows can put them back
+ */
+
+import { randomUUID } from 'node:crypto'
+import { appendFile, readFile } from 'node:fs/promises'
+import { tmpdir } from 'node:os'
+import { join } from 'node:path'
+import { createConfirmationToken, redeemConfirmationToken } from './confirmation'
+import { getSupabase, isSupabaseConfigured } from './supabase'
+import { applyFilters, applyOrder, type FilterSpec } from './supabase-query'
+import { describeTable, maskRows } from './supabase-tables'
+
+export interface DeletedRowsSnapshot {
+  id: string
+  table_name: string
+  rows: Record<string, unknown>[]
+  caller: string
+  deleted_at: string
+  restored_at: string | null
+}
+
+const DEFAULT_MAX_AFFECTED_ROWS = 25
+const PREVIEW_SAMPLE_SIZE = 5
+// Primary-key values per delete request, keeping the PostgREST URL short
+const DELETE_BATCH_SIZE = 100
+// Rows per snapshot request; PostgREST caps a response at max-rows (1000 by default)
+const SNAPSHOT_PAGE_SIZE = 1000
+
+const getUndoTable = () => process.env.MCP_UNDO_TABLE || 'mcp_deleted_rows'
+const getUndoLogPath = () => process.env.MCP_UNDO_LOG_PATH || join(tmpdir(), 'mahana-mcp-deleted-rows.jsonl')
+
+export function getMaxAffectedRows(): number {
+  const configured = Number(process.env.MCP_SUPABASE_MAX_AFFECTED_ROWS)
+  return Number.isFinite(configured) && configured > 0 ? configured : DEFAULT_MAX_AFFECTED_ROWS
+}
+
+// What a confirmation token for a mutation is bound to
+export function mutationSubject(operation: 'update' | 'delete', table: string, spec: FilterSpec, data?: unknown) {
+  return { kind: 'supabase', operation, table, spec, data: data ?? null }
+}
+
+export async function previewMatches(
+  table: string,
+  spec: FilterSpec
+): Promise<{ matched: number; sample: Record<string, unknown>[] }> {
+  const query = applyFilters(
+    getSupabase().from(table).select('*', { count: 'exact' }),
+    spec
+  )
+  const { data, count, error } = await query.range(0, PREVIEW_SAMPLE_SIZE - 1)
+
+  if (error) {
+    throw new Error(error.message)
+  }
+
+  return { matched: count ?? data?.length ?? 0, sample: (data || []) as Record<string, unknown>[] }
+}
+
+// =========================================================================
+// Undo store
+// =========================================================================
+
+async function readLocalSnapshots(): Promise<DeletedRowsSnapshot[]> {
+  let raw: string
+  try {
+    raw = await readFile(getUndoLogPath(), 'utf8')
+  } catch {
+    return []
+  }
+
+  // Later lines (restore markers) supersede earlier ones with the same id
+  const byId = new Map<string, DeletedRowsSnapshot>()
+  for (const line of raw.split('\n')) {
+    if (!line.trim()) continue
+    try {
+      const snapshot = JSON.parse(line) as DeletedRowsSnapshot
+      byId.set(snapshot.id, snapshot)
+    } catch {
+      // Skip partially written lines
+    }
+  }
+  return [...byId.values()]
+}
+
+export async function saveDeletedRows(
+  table: string,
+  rows: Record<string, unknown>[],
+  caller: string
+): Promise<string> {
+  const snapshot: DeletedRowsSnapshot = {
+    id: randomUUID(),
+    table_name: table,
+    rows,
+    caller,
+    deleted_at: new Date().toISOString(),
+    restored_at: null,
+  }
+
+  const { error } = await getSupabase().from(getUndoTable()).insert(snapshot)
+  if (error) {
+    console.error(`[MCP] Undo snapshot insert failed, using local store: ${error.message}`)
+    await appendFile(getUndoLogPath(), `${JSON.stringify(snapshot)}\n`, 'utf8')
+  }
+
+  return snapshot.id
+}
+
+/**
+ * Every row a filter matches, in primary key order, fetched a page at a
+ * time until the count is reached (max-rows may be lower than the page).
+ */
+async function selectAllMatches(table: string, spec: FilterSpec, primaryKey: string[]): Promise<Record<string, unknown>[]> {
+  const rows: Record<string, unknown>[] = []
+  let total: number | null = null
+  while (total === null || rows.length < total) {
+    const query = applyFilters(getSupabase().from(table).select('*', rows.length === 0 ? { count: 'exact' } : undefined), spec)
+    const { data, count, error } = await applyOrder(query, primaryKey.map((column) => ({ column })))
+      .range(rows.length, rows.length + SNAPSHOT_PAGE_SIZE - 1)
+    if (error) {
+      throw new Error(error.message)
+    }
+    if (!data?.length) {
+      break
+    }
+    rows.push(...(data as Record<string, unknown>[]))
+    total = total ?? count ?? (data.length < SNAPSHOT_PAGE_SIZE ? rows.length : null)
+  }
+  return rows
+}
+
+/**
+ * Delete the rows a filter matches, snapshotting them first: select them
+ * all, save the snapshot, then delete exactly those rows by primary key (still
+ * under the filter, so rows that changed in between are left alone).
+ * Nothing is deleted when the snapshot cannot be saved.
+ */
+export async function deleteWithSnapshot(
+  table: string,
+  spec: FilterSpec,
+  caller: string
+): Promise<{ deleted: number; undoId: string | null }> {
+  const primaryKey = (await describeTable(table))?.primaryKey || []
+  if (primaryKey.length === 0) {
+    throw new Error(`Table "${table}" has no primary key, so the rows cannot be snapshotted for undo before deleting`)
+  }
+
+  const supabase = getSupabase()
+  const rows = await selectAllMatches(table, spec, primaryKey)
+  if (rows.length === 0) {
+    return { deleted: 0, undoId: null }
+  }
+
+  let undoId: string
+  try {
+    undoId = await saveDeletedRows(table, rows, caller)
+  } catch (err) {
+    throw new Error(`Could not snapshot the rows for undo, nothing was deleted: ${err instanceof Error ? err.message : err}`)
+  }
+
+  // One request per batch of ids, or per row for composite keys
+  const targets = primaryKey.length === 1
+    ? Array.from({ length: Math.ceil(rows.length / DELETE_BATCH_SIZE) }, (_, index) =>
+        rows.slice(index * DELETE_BATCH_SIZE, (index + 1) * DELETE_BATCH_SIZE).map((row) => row[primaryKey[0]]))
+    : rows.map((row) => Object.fromEntries(primaryKey.map((column) => [column, row[column]])))
+
+  let deleted = 0
+  for (const target of targets) {
+    const query = applyFilters(supabase.from(table).delete(), spec)
+    const { data: removed, error: deleteError } = await (Array.isArray(target)
+      ? query.in(primaryKey[0], target)
+      : query.match(target)
+    ).select(primaryKey.join(','))
+    if (deleteError) {
+      throw new Error(`${deleteError.message} (${deleted} row(s) already deleted, undoId ${undoId})`)
+    }
+    deleted += removed?.length || 0
+  }
+
+  return { deleted, undoId }
+}
+
+export async function getDeletedRows(id: string): Promise<DeletedRowsSnapshot | null> {
+  if (isSupabaseConfigured()) {
+    const { data, error } = await getSupabase()
+      .from(getUndoTable())
+      .select('*')
+      .eq('id', id)
+      .maybeSingle()
+
+    if (!error && data) {
+      return data as DeletedRowsSnapshot
+    }
+  }
+
+  return (await readLocalSnapshots()).find((snapshot) => snapshot.id === id) || null
+}
+
+export async function markRestored(snapshot: DeletedRowsSnapshot): Promise<void> {
+  const restoredAt = new Date().toISOString()
+
+  const { data, error } = await getSupabase()
+    .from(getUndoTable())
+    .update({ restored_at: restoredAt })
+    .eq('id', snapshot.id)
+    .select('id')
+
+  if (error || !data?.length) {
+    await appendFile(getUndoLogPath(), `${JSON.stringify({ ...snapshot, restored_at: restoredAt })}\n`, 'utf8')
+  }
+}
+
+/**
+ * Dry-run and blast-radius check for an update or delete. Returns a tool
+ * result when the mutation should not run (preview requested, or too many
+ * rows without a valid confirmation token), otherwise null.
+ */
+export async function checkMutation(options: {
+  operation: 'update' | 'delete'
+  table: string
+  spec: FilterSpec
+  data?: unknown
+  dryRun?: boolean
+  confirmationToken?: string
+}): Promise<{ content: { type: 'text'; text: string }[] } | null> {
+  const { operation, table, spec, data, dryRun, confirmationToken } = options
+  const maxAffectedRows = getMaxAffectedRows()
+  const subject = mutationSubject(operation, table, spec, data)
+  const { matched, sample } = await previewMatches(table, spec)
+  const overLimit = matched > maxAffectedRows
+
+  if (!dryRun && (!overLimit || (confirmationToken && await redeemConfirmationToken(confirmationToken, subject)))) {
+    return null
+  }
+
+  const { token, expiresAt } = createConfirmationToken(subject)
+  return {
+    content: [{
+      type: 'text',
+      text: JSON.stringify({
+        success: Boolean(dryRun),
+        dryRun: Boolean(dryRun),
+        operation,
+        table,
+        matched,
+        maxAffectedRows,
+        requiresConfirmation: overLimit,
+        sample: maskRows(table, sample),
+        confirmationToken: token,
+        expiresAt,
+        message: dryRun
+          ? `${matched} row(s) would be affected${overLimit ? ' - above the limit, so pass confirmationToken to proceed' : ''}`
+          : `This ${operation} would affect ${matched} rows (limit ${maxAffectedRows}). Confirm with the user, then call again with confirmationToken.`
+      })
+    }]
+  }
+}
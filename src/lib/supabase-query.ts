@@ -0,0 +1,213 @@
+/**
+ * Shared filter grammar and query builder for the Supabase tools
+ *
+ * supabase_query, supabase_update and supabase_delete accept the same
+ * filter parameters:
+ *   - filter:  a single condition (kept for backwards compatibility)
+ *   - filters: conditions combined with AND
+ *   - or:      groups of conditions; each group matches when any of its
+ *              conditions match, and all groups must match
+ *
+ * Conditions support eq, neq, gt, gte, lt, lte, like, ilike, in, is,
+ * contains and not (negates notOperator, default eq). Filter and order
+ * columns must be plain names: or groups are sent as one PostgREST string,
+ * where a column like "id.eq.1,secret.like.a*" would add conditions of its
+ * own.
+ */
+
+import { createHash } from 'node:crypto'
+import { z } from 'zod'
+import { PLAIN_COLUMN } from './supabase-tables'
+
+export const FILTER_OPERATORS = ['eq', 'neq', 'gt', 'gte', 'lt', 'lte', 'like', 'ilike', 'in', 'is', 'contains', 'not'] as const
+const NEGATABLE_OPERATORS = ['eq', 'neq', 'gt', 'gte', 'lt', 'lte', 'like', 'ilike', 'in', 'is', 'contains'] as const
+
+type FilterOperator = typeof FILTER_OPERATORS[number]
+type NegatableOperator = typeof NEGATABLE_OPERATORS[number]
+
+const scalarValue = z.union([z.string(), z.number(), z.boolean(), z.null()])
+
+export const filterConditionSchema = z.object({
+  column: z.string(),
+  operator: z.enum(FILTER_OPERATORS),
+  value: z.union([scalarValue, z.array(z.union([z.string(), z.number()])), z.record(z.any())])
+    .describe('Value to compare. Arrays for "in"/"contains", null/true/false for "is".'),
+  notOperator: z.enum(NEGATABLE_OPERATORS).optional().describe('Operator negated by "not" (default: eq)')
+})
+
+export type FilterCondition = z.infer<typeof filterConditionSchema>
+
+// Spread into a tool's parameter shape
+export const filterParams = {
+  filter: filterConditionSchema.optional().describe('Single filter condition'),
+  filters: z.array(filterConditionSchema).optional().describe('Filter conditions combined with AND'),
+  or: z.array(z.array(filterConditionSchema).min(1)).optional()
+    .describe('OR groups: each inner array matches if any condition matches; all groups must match')
+}
+
+export const orderParam = z.array(z.object({
+  column: z.string(),
+  ascending: z.boolean().optional().describe('Sort ascending (default: true)'),
+  nullsFirst: z.boolean().optional()
+})).optional().describe('Sort by one or more columns, in priority order')
+
+export interface FilterSpec {
+  filter?: FilterCondition
+  filters?: FilterCondition[]
+  or?: FilterCondition[][]
+}
+
+export interface OrderSpec {
+  column: string
+  ascending?: boolean
+  nullsFirst?: boolean
+}
+
+// Structural subset of the PostgREST builder used here
+interface Filterable<T> {
+  filter(column: string, operator: string, value: unknown): T
+  or(filters: string): T
+}
+
+interface Orderable<T> {
+  order(column: string, options?: { ascending?: boolean; nullsFirst?: boolean }): T
+}
+
+const POSTGREST_OPERATOR: Record<Exclude<FilterOperator, 'not'>, string> = {
+  eq: 'eq', neq: 'neq', gt: 'gt', gte: 'gte', lt: 'lt', lte: 'lte',
+  like: 'like', ilike: 'ilike', in: 'in', is: 'is', contains: 'cs',
+}
+
+// Quote values containing PostgREST delimiters
+function quote(value: string | number): string {
+  const text = String(value)
+  return /[,.:()"\s{}]/.test(text) ? `"${text.replace(/\\/g, '\\\\').replace(/"/g, '\\"')}"` : text
+}
+
+function serializeValue(operator: NegatableOperator, value: FilterCondition['value'], forOrString: boolean): string {
+  switch (operator) {
+    case 'in': {
+      const items = Array.isArray(value) ? value : [value as string | number]
+      return `(${items.map((item) => quote(item as string | number)).join(',')})`
+    }
+    case 'is':
+      if (value !== null && value !== true && value !== false) {
+        throw new Error('Operator "is" only accepts null, true or false')
+      }
+      return String(value)
+    case 'contains':
+      if (Array.isArray(value)) {
+        return `{${value.map((item) => quote(item)).join(',')}}`
+      }
+      return typeof value === 'object' && value !== null ? JSON.stringify(value) : String(value)
+    default:
+      if (Array.isArray(value) || (typeof value === 'object' && value !== null)) {
+        throw new Error(`Operator "${operator}" needs a single value`)
+      }
+      return forOrString && typeof value === 'string' ? quote(value) : String(value)
+  }
+}
+
+function toPostgrest(condition: FilterCondition, forOrString: boolean): { operator: string; value: string } {
+  if (condition.operator === 'not') {
+    const inner = condition.notOperator || 'eq'
+    return { operator: `not.${POSTGREST_OPERATOR[inner]}`, value: serializeValue(inner, condition.value, forOrString) }
+  }
+  return {
+    operator: POSTGREST_OPERATOR[condition.operator],
+    value: serializeValue(condition.operator, condition.value, forOrString)
+  }
+}
+
+export function filterConditions(spec: FilterSpec): FilterCondition[] {
+  return [
+    ...(spec.filter ? [spec.filter] : []),
+    ...(spec.filters || []),
+    ...(spec.or || []).flat(),
+  ]
+}
+
+// Every column referenced by the filters (for masked-column checks)
+export function filterColumns(spec: FilterSpec): string[] {
+  return [...new Set(filterConditions(spec).map((condition) => condition.column))]
+}
+
+/**
+ * Check that every filter and order column is a plain column name.
+ * Returns an error message, or null when all are.
+ */
+export function checkQueryColumns(spec: FilterSpec, order: OrderSpec[] = []): string | null {
+  const unsupported = [...filterColumns(spec), ...order.map((entry) => entry.column)]
+    .find((column) => !PLAIN_COLUMN.test(column))
+  return unsupported === undefined ? null : `Unsupported column "${unsupported}": filters and order take plain column names`
+}
+
+function assertQueryColumns(spec: FilterSpec, order?: OrderSpec[]) {
+  const problem = checkQueryColumns(spec, order)
+  if (problem) {
+    throw new Error(problem)
+  }
+}
+
+export function hasFilters(spec: FilterSpec): boolean {
+  return filterConditions(spec).length > 0
+}
+
+export function applyFilters<T extends Filterable<T>>(query: T, spec: FilterSpec): T {
+  assertQueryColumns(spec)
+  let result = query
+
+  for (const condition of [...(spec.filter ? [spec.filter] : []), ...(spec.filters || [])]) {
+    const { operator, value } = toPostgrest(condition, false)
+    result = result.filter(condition.column, operator, value)
+  }
+
+  for (const group of spec.or || []) {
+    const clause = group
+      .map((condition) => {
+        const { operator, value } = toPostgrest(condition, true)
+        return `${condition.column}.${operator}.${value}`
+      })
+      .join(',')
+    result = result.or(clause)
+  }
+
+  return result
+}
+
+export function applyOrder<T extends Orderable<T>>(query: T, order: OrderSpec[] = []): T {
+  assertQueryColumns({}, order)
+  return order.reduce(
+    (result, { column, ascending = true, nullsFirst }) =>
+      result.order(column, { ascending, ...(nullsFirst !== undefined ? { nullsFirst } : {}) }),
+    query
+  )
+}
+
+// Cursors are bound to the query shape so they can't be replayed against a different query
+function queryFingerprint(table: string, spec: FilterSpec, order: OrderSpec[] = [], select = '*'): string {
+  return createHash('sha256')
+    .update(JSON.stringify({ table, spec, order, select }))
+    .digest('base64url')
+    .slice(0, 16)
+}
+
+export function encodeCursor(offset: number, table: string, spec: FilterSpec, order?: OrderSpec[], select?: string): string {
+  return Buffer.from(JSON.stringify({ o: offset, q: queryFingerprint(table, spec, order, select) })).toString('base64url')
+}
+
+export function decodeCursor(cursor: string, table: string, spec: FilterSpec, order?: OrderSpec[], select?: string): number {
+  let parsed: { o?: unknown; q?: unknown }
+  try {
+    parsed = JSON.parse(Buffer.from(cursor, 'base64url').toString('utf8'))
+  } catch {
+    throw new Error('Invalid cursor')
+  }
+  if (typeof parsed.o !== 'number' || !Number.isInteger(parsed.o) || parsed.o < 0) {
+    throw new Error('Invalid cursor')
+  }
+  if (parsed.q !== queryFingerprint(table, spec, order, select)) {
+    throw new Error('Cursor belongs to a different query - repeat the original table, select, filters and order')
+  }
+  return parsed.o
+}
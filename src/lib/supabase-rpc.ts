@@ -0,0 +1,163 @@
+/**
+ * Allowlisted Postgres functions for the supabase_rpc tool
+ *
+ * Only registered functions can be called, and the tool only exists when
+ * there is at least one. Each registration carries a zod schema for its
+ * parameters; the tool's input schema is a union of all registrations, so
+ * MCP clients see typed arguments per function.
+ *
+ * Functions are registered in MCP_RPC_FUNCTIONS (JSON), with parameter
+ * types string, number, integer, boolean, array or object:
+ *   [{ "name": "venues_near", "description": "Venues within a radius of a point, nearest first",
+ *      "params": { "lat": { "type": "number" }, "lng": { "type": "number" },
+ *                  "radius_km": { "type": "number", "optional": true } },
+ *      "readOnly": true }]
+ * or in code, in RPC_FUNCTIONS:
+ *
+ *   defineRpcFunction({
+ *     name: 'venues_near',
+ *     description: 'Venues within a radius of a point, nearest first',
+ *     params: z.object({
+ *       lat: z.number(),
+ *       lng: z.number(),
+ *       radius_km: z.number().optional()
+ *     }),
+ *     readOnly: true
+ *   })
+ */
+
+import { z } from 'zod'
+import { getSupabase } from './supabase'
+
+export interface RpcFunctionDefinition<T extends z.AnyZodObject = z.AnyZodObject> {
+  name: string
+  description: string
+  params: T
+  // Read-only functions are called with GET (works for STABLE/IMMUTABLE functions)
+  readOnly?: boolean
+}
+
+export interface RpcError {
+  function: string
+  code: string | null
+  message: string
+  details: string | null
+  hint: string | null
+}
+
+type RpcParamType = 'string' | 'number' | 'integer' | 'boolean' | 'array' | 'object'
+
+interface ConfiguredRpcFunction {
+  name: string
+  description?: string
+  params?: Record<string, { type: RpcParamType; optional?: boolean; description?: string }>
+  readOnly?: boolean
+}
+
+const PARAM_SCHEMAS: Record<RpcParamType, () => z.ZodTypeAny> = {
+  string: () => z.string(),
+  number: () => z.number(),
+  integer: () => z.number().int(),
+  boolean: () => z.boolean(),
+  array: () => z.array(z.any()),
+  object: () => z.record(z.any()),
+}
+
+let cachedConfig: { raw: string | undefined; functions: RpcFunctionDefinition[] } | null = null
+
+export function defineRpcFunction<T extends z.AnyZodObject>(definition: RpcFunctionDefinition<T>) {
+  return definition
+}
+
+// Server-side allowlist - add registrations here
+export const RPC_FUNCTIONS: RpcFunctionDefinition[] = []
+
+function toDefinition(fn: ConfiguredRpcFunction): RpcFunctionDefinition {
+  if (!fn.name) {
+    throw new Error('every function needs a name')
+  }
+  const shape: Record<string, z.ZodTypeAny> = {}
+  for (const [param, spec] of Object.entries(fn.params || {})) {
+    const schema = PARAM_SCHEMAS[spec.type]
+    if (!schema) {
+      throw new Error(`unknown type "${spec.type}" for ${fn.name}.${param}`)
+    }
+    const typed = spec.description ? schema().describe(spec.description) : schema()
+    shape[param] = spec.optional ? typed.optional() : typed
+  }
+  return defineRpcFunction({ name: fn.name, description: fn.description || fn.name, params: z.object(shape), readOnly: fn.readOnly })
+}
+
+// Functions from MCP_RPC_FUNCTIONS, after the ones registered in code
+export function getRpcFunctions(): RpcFunctionDefinition[] {
+  const raw = process.env.MCP_RPC_FUNCTIONS
+  if (!cachedConfig || cachedConfig.raw !== raw) {
+    let functions: RpcFunctionDefinition[] = []
+    if (raw) {
+      try {
+        functions = (JSON.parse(raw) as ConfiguredRpcFunction[]).map(toDefinition)
+      } catch (err) {
+        // Fail closed: a broken allowlist must not register half of it
+        console.error(`[MCP] Invalid MCP_RPC_FUNCTIONS - no functions registered from it: ${err instanceof Error ? err.message : err}`)
+      }
+    }
+    cachedConfig = { raw, functions }
+  }
+
+  const inCode = new Set(RPC_FUNCTIONS.map((fn) => fn.name))
+  return [...RPC_FUNCTIONS, ...cachedConfig.functions.filter((fn) => !inCode.has(fn.name))]
+}
+
+/**
+ * Input schema for supabase_rpc: { function, params } per registration,
+ * discriminated on the function name. Null when nothing is registered.
+ */
+export function buildRpcCallSchema() {
+  const variants = getRpcFunctions().map((fn) =>
+    z.object({
+      function: z.literal(fn.name).describe(fn.description),
+      params: fn.params
+    })
+  )
+
+  if (variants.length === 0) {
+    return null
+  }
+
+  const [first, ...rest] = variants
+  return z.discriminatedUnion('function', [first, ...rest])
+}
+
+export function describeRpcFunctions(): string {
+  return getRpcFunctions().map((fn) => `${fn.name}: ${fn.description}`).join('; ')
+}
+
+export async function callRpcFunction(
+  name: string,
+  params: Record<string, unknown>
+): Promise<{ success: true; data: unknown } | { success: false; error: RpcError }> {
+  const definition = getRpcFunctions().find((fn) => fn.name === name)
+  if (!definition) {
+    return {
+      success: false,
+      error: { function: name, code: 'not_allowed', message: `Function "${name}" is not in the RPC allowlist`, details: null, hint: null }
+    }
+  }
+
+  const { data, error } = await getSupabase().rpc(name, params, definition.readOnly ? { get: true } : undefined)
+
+  if (error) {
+    return {
+      success: false,
+      error: {
+        function: name,
+        code: error.code || null,
+        message: error.message,
+        details: error.details || null,
+        hint: error.hint || null
+      }
+    }
+  }
+
+  return { success: true, data }
+}
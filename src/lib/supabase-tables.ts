@@ -0,0 +1,243 @@
+/**
+ * Table allowlist and schema introspection for the Supabase tools
+ *
+ * The Supabase tools run with the service-role key, so table access is
+ * limited by MCP_SUPABASE_TABLES (JSON):
+ *   {
+ *     "agent_memory": { "operations": ["select", "insert", "update", "delete"] },
+ *     "venues": { "operations": ["select"], "maskedColumns": ["contact_phone"] }
+ *   }
+ * Masked columns are stripped from returned rows, cannot be selected,
+ * filtered on or ordered by, and are hidden from describe_supabase_table.
+ * supabase_query only accepts "*" or plain column names as its select list,
+ * and filter and order columns must be plain names too, since aliases,
+ * embedded tables, casts and JSON paths would reach around the mask.
+ * Without MCP_SUPABASE_TABLES every table is reachable (dev mode).
+ *
+ * Schema information comes from PostgREST's OpenAPI document at /rest/v1/.
+ */
+
+export type TableOperation = 'select' | 'insert' | 'update' | 'delete'
+
+export interface TablePolicy {
+  operations?: TableOperation[]
+  maskedColumns?: string[]
+}
+
+export interface ColumnInfo {
+  name: string
+  type: string
+  format?: string
+  nullable: boolean
+  default?: unknown
+  primaryKey: boolean
+  foreignKey?: { table: string; column: string }
+  description?: string
+}
+
+export interface TableInfo {
+  table: string
+  operations: TableOperation[]
+  primaryKey: string[]
+  columns: ColumnInfo[]
+}
+
+const ALL_OPERATIONS: TableOperation[] = ['select', 'insert', 'update', 'delete']
+
+// No aliases (a:b), embeds (t(*)), casts (::) or JSON paths (->)
+export const PLAIN_COLUMN = /^[A-Za-z_][A-Za-z0-9_]*$/
+
+// PostgREST schema changes rarely; avoid fetching it on every voice turn
+const SCHEMA_CACHE_TTL_MS = 5 * 60 * 1000
+
+interface OpenApiDefinition {
+  required?: string[]
+  properties?: Record<string, { type?: string; format?: string; default?: unknown; description?: string }>
+}
+
+let schemaCache: { loadedAt: number; definitions: Record<string, OpenApiDefinition> } | null = null
+let cachedPolicies: { raw: string | undefined; policies: Record<string, TablePolicy> | null } | null = null
+
+// null = no allowlist configured
+export function getTablePolicies(): Record<string, TablePolicy> | null {
+  const raw = process.env.MCP_SUPABASE_TABLES
+  if (cachedPolicies && cachedPolicies.raw === raw) {
+    return cachedPolicies.policies
+  }
+
+  let policies: Record<string, TablePolicy> | null = null
+  if (raw) {
+    try {
+      policies = JSON.parse(raw) as Record<string, TablePolicy>
+    } catch (err) {
+      // Fail closed: a broken allowlist must not open every table
+      console.error('[MCP] Invalid MCP_SUPABASE_TABLES JSON - denying all tables', err)
+      policies = {}
+    }
+  }
+
+  cachedPolicies = { raw, policies }
+  return policies
+}
+
+export function getAllowedOperations(table: string): TableOperation[] {
+  const policies = getTablePolicies()
+  if (!policies) {
+    return ALL_OPERATIONS
+  }
+  const policy = policies[table]
+  return policy ? policy.operations || ALL_OPERATIONS : []
+}
+
+export function getMaskedColumns(table: string): string[] {
+  return getTablePolicies()?.[table]?.maskedColumns || []
+}
+
+/**
+ * Check a table operation against the allowlist.
+ * Returns an error message, or null when allowed.
+ */
+export function checkTableAccess(table: string, operation: TableOperation): string | null {
+  const allowed = getAllowedOperations(table)
+  if (allowed.length === 0) {
+    return `Table "${table}" is not in the allowlist. Use list_supabase_tables to see available tables.`
+  }
+  if (!allowed.includes(operation)) {
+    return `Operation "${operation}" is not allowed on table "${table}" (allowed: ${allowed.join(', ')})`
+  }
+  return null
+}
+
+/**
+ * Returns the first masked column among the given ones, if any. Names that
+ * aren't plain column names count as masked, since there is no telling
+ * which columns they reach.
+ */
+export function findMaskedColumn(table: string, columns: string[]): string | null {
+  const masked = getMaskedColumns(table)
+  return columns.find((column) => !PLAIN_COLUMN.test(column) || masked.includes(column)) || null
+}
+
+/**
+ * Check a supabase_query select list: "*" or comma-separated plain names of
+ * columns describe_supabase_table shows for the table.
+ * Returns an error message, or null when allowed.
+ */
+export async function checkSelectColumns(table: string, select: string): Promise<string | null> {
+  const columns = select.split(',').map((column) => column.trim())
+  if (columns.length === 1 && columns[0] === '*') {
+    return null
+  }
+
+  const unsupported = columns.find((column) => !PLAIN_COLUMN.test(column))
+  if (unsupported !== undefined) {
+    return `Unsupported select entry "${unsupported}": use "*" or a comma-separated list of column names (no aliases, embedded tables or casts)`
+  }
+  const masked = findMaskedColumn(table, columns)
+  if (masked) {
+    return `Cannot select masked column "${masked}"`
+  }
+
+  const info = await describeTable(table)
+  if (!info) {
+    return `Table "${table}" not found or not allowed. Use list_supabase_tables to see available tables.`
+  }
+  const unknown = columns.find((column) => !info.columns.some((known) => known.name === column))
+  return unknown ? `Unknown column "${unknown}" on table "${table}". Use describe_supabase_table to see its columns.` : null
+}
+
+export function maskRows<T>(table: string, rows: T[] | null | undefined): T[] {
+  const masked = getMaskedColumns(table)
+  if (!rows || masked.length === 0) {
+    return rows || []
+  }
+  return rows.map((row) => {
+    if (!row || typeof row !== 'object') return row
+    const copy = { ...(row as Record<string, unknown>) }
+    for (const column of masked) {
+      delete copy[column]
+    }
+    return copy as T
+  })
+}
+
+async function loadSchemaDefinitions(): Promise<Record<string, OpenApiDefinition>> {
+  if (schemaCache && Date.now() - schemaCache.loadedAt < SCHEMA_CACHE_TTL_MS) {
+    return schemaCache.definitions
+  }
+
+  const url = process.env.NEXT_PUBLIC_SUPABASE_URL
+  const key = process.env.SUPABASE_SERVICE_ROLE_KEY
+  if (!url || !key) {
+    throw new Error('Supabase credentials not configured')
+  }
+
+  const response = await fetch(`${url}/rest/v1/`, {
+    headers: { apikey: key, Authorization: `Bearer ${key}`, Accept: 'application/openapi+json' }
+  })
+  if (!response.ok) {
+    throw new Error(`Failed to load table schema: HTTP ${response.status}`)
+  }
+
+  const spec = await response.json() as { definitions?: Record<string, OpenApiDefinition> }
+  schemaCache = { loadedAt: Date.now(), definitions: spec.definitions || {} }
+  return schemaCache.definitions
+}
+
+// PostgREST marks keys inside column descriptions: <pk/> and <fk table='x' column='y'/>
+function parseColumn(
+  name: string,
+  property: NonNullable<OpenApiDefinition['properties']>[string],
+  required: string[]
+): ColumnInfo {
+  const description = property.description || ''
+  const fk = description.match(/<fk table='([^']+)' column='([^']+)'\/>/)
+  const note = description
+    .replace(/Note:\s*/g, '')
+    .replace(/This is a (Primary|Foreign) Key\.?/g, '')
+    .replace(/<[^>]+\/>/g, '')
+    .trim()
+
+  return {
+    name,
+    type: property.type || 'unknown',
+    ...(property.format ? { format: property.format } : {}),
+    nullable: !required.includes(name),
+    ...(property.default !== undefined ? { default: property.default } : {}),
+    primaryKey: description.includes('<pk/>'),
+    ...(fk ? { foreignKey: { table: fk[1], column: fk[2] } } : {}),
+    ...(note ? { description: note } : {}),
+  }
+}
+
+export async function listTables(): Promise<{ table: string; operations: TableOperation[] }[]> {
+  const definitions = await loadSchemaDefinitions()
+  return Object.keys(definitions)
+    .sort()
+    .map((table) => ({ table, operations: getAllowedOperations(table) }))
+    .filter((entry) => entry.operations.length > 0)
+}
+
+export async function describeTable(table: string): Promise<TableInfo | null> {
+  const operations = getAllowedOperations(table)
+  if (operations.length === 0) {
+    return null
+  }
+
+  const definition = (await loadSchemaDefinitions())[table]
+  if (!definition) {
+    return null
+  }
+
+  const masked = getMaskedColumns(table)
+  const columns = Object.entries(definition.properties || {})
+    .filter(([name]) => !masked.includes(name))
+    .map(([name, property]) => parseColumn(name, property, definition.required || []))
+
+  return {
+    table,
+    operations,
+    primaryKey: columns.filter((column) => column.primaryKey).map((column) => column.name),
+    columns,
+  }
+}
@@ -0,0 +1,17 @@
+import { createClient } from '@supabase/supabase-js'
+
+// Initialize Supabase client (still used for cloud data, not terminal commands)
+export const getSupabase = () => {
+  const url = process.env.NEXT_PUBLIC_SUPABASE_URL
+  const key = process.env.SUPABASE_SERVICE_ROLE_KEY
+
+  if (!url || !key) {
+    throw new Error('Supabase credentials not configured')
+  }
+
+  return createClient(url, key)
+}
+
+// For optional Supabase-backed features that fall back to local storage
+export const isSupabaseConfigured = () =>
+  Boolean(process.env.NEXT_PUBLIC_SUPABASE_URL && process.env.SUPABASE_SERVICE_ROLE_KEY)
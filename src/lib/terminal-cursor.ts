@@ -0,0 +1,159 @@
+/**
+ * Incremental terminal reads
+ *
+ * i-View only serves the last N lines of a terminal, with no line numbers.
+ * A cursor therefore records a fingerprint of the last few complete lines
+ * seen (the anchor) and how many times they appeared in that window; the
+ * next read finds that anchor in fresh scrollback and returns only what
+ * follows it. Output after the cursor can repeat the anchor (the same
+ * command run twice), so the read takes the occurrence with the recorded
+ * rank while nothing can have scrolled out of the window, and the first
+ * occurrence otherwise - returning a few lines twice rather than skipping
+ * any.
+ *
+ * The final line of the scrollback is treated as unfinished - usually the
+ * prompt, which gains the next command as it is typed - so it is returned
+ * separately as `partialLine` and is not covered by the cursor. It comes
+ * back as a regular line once something is printed after it. If the anchor
+ * has scrolled out of the window (or the terminal was cleared) the read
+ * returns the whole window with `gap: true`.
+ */
+
+import { createHash } from 'node:crypto'
+import { getPromptPattern, stripMarkerLines } from './command-jobs'
+
+// Lines fingerprinted per cursor - enough to make repeated output unambiguous
+const ANCHOR_LINES = 8
+
+// Scrollback window searched for a cursor's anchor
+export const CURSOR_SCROLLBACK_LINES = 500
+
+interface CursorState {
+  device: string | null
+  terminal: string | null
+  anchor: string[]
+  // Occurrences of the anchor in the window, counting itself
+  rank: number
+}
+
+const hashLine = (line: string) => createHash('sha1').update(line).digest('base64url').slice(0, 10)
+
+// All lines but the last, which may still be growing
+function completeLines(scrollback: string[]): { complete: string[]; partialLine: string | null } {
+  if (scrollback.length === 0) {
+    return { complete: [], partialLine: null }
+  }
+  return { complete: scrollback.slice(0, -1), partialLine: scrollback[scrollback.length - 1] }
+}
+
+export function encodeTerminalCursor(scrollback: string[], device: string | null, terminal: string | null): string {
+  const { complete } = completeLines(scrollback)
+  const anchor = complete.slice(-ANCHOR_LINES).map(hashLine)
+  const state = { d: device, t: terminal, a: anchor, n: Math.max(1, anchorEnds(complete.map(hashLine), anchor).length) }
+  return Buffer.from(JSON.stringify(state)).toString('base64url')
+}
+
+export function decodeTerminalCursor(cursor: string): CursorState {
+  let parsed: { d?: unknown; t?: unknown; a?: unknown; n?: unknown }
+  try {
+    parsed = JSON.parse(Buffer.from(cursor, 'base64url').toString('utf8'))
+  } catch {
+    throw new Error('Invalid cursor')
+  }
+  if (!Array.isArray(parsed.a) || parsed.a.some((hash) => typeof hash !== 'string')) {
+    throw new Error('Invalid cursor')
+  }
+  return {
+    device: typeof parsed.d === 'string' ? parsed.d : null,
+    terminal: typeof parsed.t === 'string' ? parsed.t : null,
+    anchor: parsed.a as string[],
+    rank: typeof parsed.n === 'number' && Number.isInteger(parsed.n) && parsed.n > 0 ? parsed.n : 1,
+  }
+}
+
+// Indexes just past each occurrence of the anchor, first to last
+function anchorEnds(hashes: string[], anchor: string[]): number[] {
+  const ends: number[] = []
+  for (let end = anchor.length; end <= hashes.length; end++) {
+    if (anchor.every((hash, i) => hashes[end - anchor.length + i] === hash)) {
+      ends.push(end)
+    }
+  }
+  return ends
+}
+
+/**
+ * Index just past the cursor's occurrence of its anchor in `lines`, or -1
+ * when the anchor is gone. An empty anchor (cursor taken on an empty
+ * terminal) matches the start. Once the window is full, earlier copies may
+ * have scrolled out, so the rank no longer says which copy is the cursor's.
+ */
+function findAnchorEnd(lines: string[], since: CursorState, windowFull: boolean): number {
+  const { anchor, rank } = since
+  if (anchor.length === 0) return 0
+  const hashes = lines.map(hashLine)
+  const ends = anchorEnds(hashes, anchor)
+  if (ends.length > 0) {
+    return !windowFull && ends.length >= rank ? ends[rank - 1] : ends[0]
+  }
+
+  // The anchor's oldest lines may have scrolled out: accept its tail at the very start of the window
+  for (let kept = Math.min(anchor.length - 1, hashes.length); kept > 0; kept--) {
+    if (anchor.slice(-kept).every((hash, i) => hashes[i] === hash)) return kept
+  }
+  return -1
+}
+
+// Index of the last line that shows a command being entered, or -1
+export function findLastCommandLine(lines: string[]): number {
+  const prompt = getPromptPattern()
+  for (let i = lines.length - 1; i >= 0; i--) {
+    // Commands sent through run_terminal_command carry the job marker
+    if (lines[i].includes('__MCP_JOB_') && !/_EXIT:\d+/.test(lines[i])) return i
+    if (prompt.test(lines[i])) return i
+  }
+  return -1
+}
+
+export interface TerminalRead {
+  lines: string[]
+  partialLine: string | null
+  cursor: string
+  // The cursor's anchor was no longer in the scrollback window
+  gap: boolean
+}
+
+/**
+ * Slice a scrollback snapshot for a cursor-based read.
+ *   since:        only lines after this cursor
+ *   from:         'last_command' starts at the most recent command line
+ *   limit:        tail size when neither applies
+ */
+export function readScrollback(
+  scrollback: string[],
+  options: {
+    device: string | null
+    terminal: string | null
+    since?: CursorState
+    from?: 'tail' | 'last_command'
+    limit: number
+  }
+): TerminalRead {
+  const { complete, partialLine } = completeLines(scrollback)
+  const cursor = encodeTerminalCursor(scrollback, options.device, options.terminal)
+
+  let lines: string[]
+  let gap = false
+  if (options.since) {
+    const start = findAnchorEnd(complete, options.since, scrollback.length >= CURSOR_SCROLLBACK_LINES)
+    gap = start === -1
+    lines = complete.slice(gap ? 0 : start)
+  } else if (options.from === 'last_command') {
+    const start = findLastCommandLine(complete)
+    lines = start === -1 ? complete.slice(-options.limit) : complete.slice(start)
+  } else {
+    lines = complete.slice(-options.limit)
+  }
+
+  return { lines: stripMarkerLines(lines), partialLine, cursor, gap }
+}
@@ -0,0 +1,203 @@
+/**
+ * Block until something happens in a terminal
+ *
+ * Polls i-View until one of the conditions holds:
+ *   - a line of new output matches a regex or contains a literal
+ *   - the terminal's state in /quick/terminals changes (optionally to a
+ *     specific state, e.g. working -> waiting; already being in that state
+ *     counts at once)
+ *   - the timeout or the tool call's deadline passes, or the request is
+ *     cancelled
+ * "New" means after the `since` cursor when given, otherwise after the
+ * scrollback at the time of the call.
+ *
+ * The route is single-threaded, so caller regexes are kept cheap: patterns
+ * are length-capped, quantified groups that contain a quantifier (e.g.
+ * (a+)+) are rejected, and each poll tests a bounded amount of text,
+ * leaving the rest for the next poll.
+ */
+
+import { iview } from './iview-client'
+import { extractLines, findTerminalState, stripMarkerLines } from './command-jobs'
+import { diffNewLines } from './output-stream'
+import { cleanTerminalText } from './output-sanitizer'
+import { remainingMs, requestDeadline } from './request-deadline'
+import {
+  CURSOR_SCROLLBACK_LINES,
+  decodeTerminalCursor,
+  encodeTerminalCursor,
+  readScrollback,
+} from './terminal-cursor'
+
+export type WaitStopReason = 'pattern' | 'state' | 'timeout' | 'cancelled'
+
+export interface WaitResult {
+  matched: boolean
+  reason: WaitStopReason
+  line: string | null
+  context: { before: string[]; after: string[] } | null
+  state: { from: string | null; to: string | null } | null
+  elapsedMs: number
+  // Resume reading after everything this wait saw
+  cursor: string | null
+  terminal: string | null
+}
+
+const DEFAULT_TIMEOUT_MS = 30_000
+const POLL_INTERVAL_MS = 750
+
+// Keeps a pathological pattern from spending long on one huge line
+const MAX_MATCH_LINE_CHARS = 4000
+// Text tested per poll; lines past it wait for the next poll
+const MAX_MATCH_CHARS_PER_POLL = 64_000
+const MAX_PATTERN_CHARS = 200
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms))
+
+const escapeRegExp = (text: string) => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')
+
+// A group followed by +, * or {n,} that itself contains one of those -
+// the shape behind catastrophic backtracking such as (a+)+ or ((a*)b)*
+function hasNestedQuantifier(pattern: string): boolean {
+  // Per open group: whether it contains a quantifier so far
+  const groups: boolean[] = []
+  let inClass = false
+  for (let i = 0; i < pattern.length; i++) {
+    const char = pattern[i]
+    if (char === '\\') {
+      i++
+    } else if (inClass) {
+      if (char === ']') inClass = false
+    } else if (char === '[') {
+      inClass = true
+    } else if (char === '(') {
+      groups.push(false)
+    } else if (char === ')') {
+      const inner = groups.pop() ?? false
+      const next = pattern.slice(i + 1)
+      if (inner && /^(?:[+*]|\{\d*,)/.test(next)) return true
+      if (inner && groups.length) groups[groups.length - 1] = true
+    } else if (char === '+' || char === '*' || (char === '{' && /^\{\d*,/.test(pattern.slice(i)))) {
+      if (groups.length) groups[groups.length - 1] = true
+    }
+  }
+  return false
+}
+
+export function buildMatcher(pattern: string, options: { regex?: boolean; ignoreCase?: boolean }): RegExp {
+  if (pattern.length > MAX_PATTERN_CHARS) {
+    throw new Error(`Pattern is too long (max ${MAX_PATTERN_CHARS} characters)`)
+  }
+  if (options.regex && hasNestedQuantifier(pattern)) {
+    throw new Error('Pattern nests quantifiers (e.g. (a+)+), which can take exponential time - simplify it')
+  }
+  try {
+    return new RegExp(options.regex ? pattern : escapeRegExp(pattern), options.ignoreCase ? 'i' : '')
+  } catch (err) {
+    throw new Error(`Invalid pattern: ${err instanceof Error ? err.message : pattern}`)
+  }
+}
+
+async function readState(device: string | undefined, terminal: string | null, deadline: number): Promise<string | null> {
+  const result = await iview.listTerminals({ device, retries: 0, deadline })
+  return result.success ? findTerminalState(result.data, terminal) : null
+}
+
+export async function waitForTerminalOutput(options: {
+  device?: string
+  terminal?: string
+  matcher?: RegExp
+  // true = any change; a string = wait for that state
+  untilState?: true | string
+  since?: ReturnType<typeof decodeTerminalCursor>
+  timeoutMs?: number
+  contextLines?: number
+  signal: AbortSignal
+  // From requestDeadline() when the tool call started (default: now)
+  deadline?: number
+}): Promise<WaitResult> {
+  const { device, matcher, untilState, since, signal, contextLines = 3, deadline = requestDeadline() } = options
+  const startedAt = Date.now()
+  const stopAt = Math.min(startedAt + (options.timeoutMs ?? DEFAULT_TIMEOUT_MS), deadline)
+
+  const first = await iview.terminalOutput({ lines: CURSOR_SCROLLBACK_LINES, terminal: options.terminal }, { device, deadline })
+  if (!first.success) {
+    throw new Error(first.error)
+  }
+  // Pin to the terminal i-View read so "active terminal" can't change under us
+  const terminal = first.data?.terminal || options.terminal || null
+  let snapshot = extractLines(first.data)
+
+  const initialState = untilState ? await readState(device, terminal, deadline) : null
+
+  // Lines checked so far, oldest first; the tail supplies context before a match
+  const seen: string[] = since
+    ? readScrollback(snapshot, { device: device || null, terminal, since, limit: 0 }).lines
+    : []
+  // Context from before the checked lines; with `since` those lines are the end of the snapshot
+  const settled = stripMarkerLines(snapshot.slice(0, -1))
+  const history = settled.slice(0, settled.length - seen.length).slice(-contextLines)
+
+  const finish = (result: Partial<WaitResult> & { reason: WaitStopReason }): WaitResult => ({
+    matched: result.reason === 'pattern' || result.reason === 'state',
+    line: null,
+    context: null,
+    state: null,
+    elapsedMs: Date.now() - startedAt,
+    cursor: encodeTerminalCursor(snapshot, device || null, terminal),
+    terminal,
+    ...result,
+  })
+
+  // The match, if any, and the index to resume from on the next poll
+  const findMatch = (lines: string[], offset: number) => {
+    if (!matcher) return { match: null, next: lines.length }
+    let budget = MAX_MATCH_CHARS_PER_POLL
+    for (let i = offset; i < lines.length; i++) {
+      const text = cleanTerminalText(lines[i]).slice(0, MAX_MATCH_LINE_CHARS)
+      if (matcher.test(text)) {
+        const before = [...history, ...lines.slice(0, i)].slice(-contextLines)
+        return { match: { line: lines[i], context: { before, after: lines.slice(i + 1, i + 1 + contextLines) } }, next: i + 1 }
+      }
+      budget -= text.length
+      if (budget <= 0) return { match: null, next: i + 1 }
+    }
+    return { match: null, next: lines.length }
+  }
+
+  // Already in the wanted state: nothing to wait for
+  if (typeof untilState === 'string' && initialState === untilState) {
+    return finish({ reason: 'state', state: { from: initialState, to: initialState } })
+  }
+
+  let checked = 0
+  while (true) {
+    const { match, next } = findMatch(seen, checked)
+    if (match) {
+      return finish({ reason: 'pattern', ...match })
+    }
+    checked = next
+
+    if (signal.aborted) return finish({ reason: 'cancelled' })
+    if (Date.now() >= stopAt) {
+      return finish({ reason: 'timeout', state: untilState ? { from: initialState, to: initialState } : null })
+    }
+
+    await sleep(Math.min(POLL_INTERVAL_MS, remainingMs(stopAt)))
+
+    const [output, state] = await Promise.all([
+      matcher ? iview.terminalOutput({ lines: CURSOR_SCROLLBACK_LINES, terminal: terminal || undefined }, { device, retries: 0, deadline }) : null,
+      untilState ? readState(device, terminal, deadline) : null,
+    ])
+
+    if (output?.success) {
+      const next = extractLines(output.data)
+      seen.push(...stripMarkerLines(diffNewLines(snapshot, next)))
+      snapshot = next
+    }
+
+    if (untilState && state && state !== initialState && (untilState === true || state === untilState)) {
+      return finish({ reason: 'state', state: { from: initialState, to: state } })
+    }
+  }
+}
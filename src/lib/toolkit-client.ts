@@ -0,0 +1,222 @@
+/**
+ * Cached client for the Mahana toolkit API (TOOLKIT_BASE_URL)
+ *
+ * Every toolkit tool, resource and prompt reads through here. Responses are
+ * cached per URL:
+ *   - fresh for TOOLKIT_CACHE_TTL_SECONDS (default 300) - served without a
+ *     request, so voice lookups cost no network round trip
+ *   - after that, revalidated with If-None-Match / If-Modified-Since; a 304
+ *     keeps the cached body
+ *   - if the toolkit is unreachable, the last copy is served stale
+ * With REDIS_URL the cache is shared across instances in Redis (in-memory
+ * copies in front); without it, or while Redis is down, it is per instance.
+ * refresh_toolkit_cache revalidates every cached path on demand.
+ */
+
+import { createClient } from 'redis'
+
+export type ToolkitCacheSource = 'cache' | 'revalidated' | 'network' | 'stale'
+
+interface CacheEntry {
+  body: string
+  etag: string | null
+  lastModified: string | null
+  fetchedAt: number
+}
+
+export interface ToolkitResponse {
+  body: string
+  source: ToolkitCacheSource
+  fetchedAt: string
+}
+
+const DEFAULT_TTL_SECONDS = 300
+
+// Redis copies outlive the TTL so stale bodies and ETags survive for revalidation
+const REDIS_EXPIRY_SECONDS = 7 * 24 * 60 * 60
+const REDIS_KEY_PREFIX = 'mahana:toolkit:'
+const REDIS_CONNECT_TIMEOUT_MS = 2000
+// After a failed connection Redis is left alone this long
+const REDIS_RETRY_MS = 60_000
+
+type RedisClient = ReturnType<typeof createClient>
+
+// Keyed by full URL, so deployments pointing at different toolkits can share Redis
+const memoryCache = new Map<string, CacheEntry>()
+const inflight = new Map<string, Promise<ToolkitResponse>>()
+
+let redisClient: Promise<RedisClient | null> | null = null
+let redisFailedAt = 0
+
+export function toolkitBaseUrl(): string {
+  return process.env.TOOLKIT_BASE_URL || 'https://mahana-mapper.vercel.app'
+}
+
+function cacheTtlMs(): number {
+  const seconds = Number(process.env.TOOLKIT_CACHE_TTL_SECONDS)
+  return (Number.isFinite(seconds) && seconds >= 0 ? seconds : DEFAULT_TTL_SECONDS) * 1000
+}
+
+function getRedis(): Promise<RedisClient | null> {
+  const url = process.env.REDIS_URL
+  if (!url || Date.now() - redisFailedAt < REDIS_RETRY_MS) {
+    return Promise.resolve(null)
+  }
+  if (!redisClient) {
+    const client = createClient({ url, socket: { connectTimeout: REDIS_CONNECT_TIMEOUT_MS, reconnectStrategy: false } })
+    client.on('error', (err) => console.warn(`[MCP] Toolkit cache Redis error: ${err instanceof Error ? err.message : err}`))
+    redisClient = client.connect().catch((err) => {
+      console.warn(`[MCP] Toolkit cache falling back to memory: ${err instanceof Error ? err.message : err}`)
+      return null
+    })
+  }
+  return redisClient.then((client) => {
+    if (client?.isReady) return client
+    // Closed after an error - retry later, use memory until then
+    redisClient = null
+    redisFailedAt = Date.now()
+    return null
+  })
+}
+
+async function readEntry(url: string): Promise<CacheEntry | null> {
+  const cached = memoryCache.get(url)
+  if (cached && Date.now() - cached.fetchedAt < cacheTtlMs()) {
+    return cached
+  }
+  const redis = await getRedis()
+  if (!redis) return cached || null
+  try {
+    const raw = await redis.get(REDIS_KEY_PREFIX + url)
+    const shared = raw ? (JSON.parse(raw) as CacheEntry) : null
+    // Another instance may hold a newer copy than this one
+    const entry = shared && (!cached || shared.fetchedAt > cached.fetchedAt) ? shared : cached || null
+    if (entry) memoryCache.set(url, entry)
+    return entry
+  } catch (err) {
+    console.warn(`[MCP] Toolkit cache read failed: ${err instanceof Error ? err.message : err}`)
+    return cached || null
+  }
+}
+
+async function writeEntry(url: string, entry: CacheEntry) {
+  memoryCache.set(url, entry)
+  const redis = await getRedis()
+  if (!redis) return
+  try {
+    await redis.set(REDIS_KEY_PREFIX + url, JSON.stringify(entry), { EX: REDIS_EXPIRY_SECONDS })
+  } catch (err) {
+    console.warn(`[MCP] Toolkit cache write failed: ${err instanceof Error ? err.message : err}`)
+  }
+}
+
+async function load(url: string, force: boolean): Promise<ToolkitResponse> {
+  const entry = await readEntry(url)
+  const respond = (cached: CacheEntry, source: ToolkitCacheSource) => ({
+    body: cached.body,
+    source,
+    fetchedAt: new Date(cached.fetchedAt).toISOString(),
+  })
+
+  if (entry && !force && Date.now() - entry.fetchedAt < cacheTtlMs()) {
+    return respond(entry, 'cache')
+  }
+
+  const headers: Record<string, string> = {}
+  if (entry?.etag) headers['If-None-Match'] = entry.etag
+  if (entry?.lastModified) headers['If-Modified-Since'] = entry.lastModified
+
+  let response: Response
+  try {
+    response = await fetch(url, { headers })
+  } catch (err) {
+    if (entry) return respond(entry, 'stale')
+    throw err
+  }
+
+  if (response.status === 304 && entry) {
+    const revalidated = { ...entry, fetchedAt: Date.now() }
+    await writeEntry(url, revalidated)
+    return respond(revalidated, 'revalidated')
+  }
+  if (!response.ok) {
+    if (entry && response.status >= 500) return respond(entry, 'stale')
+    throw new Error(`HTTP ${response.status}`)
+  }
+
+  const fetched = {
+    body: await response.text(),
+    etag: response.headers.get('etag'),
+    lastModified: response.headers.get('last-modified'),
+    fetchedAt: Date.now(),
+  }
+  await writeEntry(url, fetched)
+  return respond(fetched, 'network')
+}
+
+/**
+ * Fetch a toolkit path (e.g. "/api/toolkit?section=cli") through the cache.
+ * Concurrent requests for the same path share one fetch.
+ */
+export function fetchToolkit(path: string, options: { force?: boolean } = {}): Promise<ToolkitResponse> {
+  const url = `${toolkitBaseUrl()}${path}`
+  const key = `${options.force ? 'force:' : ''}${url}`
+  const pending = inflight.get(key)
+  if (pending) return pending
+
+  const request = load(url, Boolean(options.force)).finally(() => inflight.delete(key))
+  inflight.set(key, request)
+  return request
+}
+
+export async function fetchToolkitJson<T = Record<string, unknown>>(path: string): Promise<T> {
+  return JSON.parse((await fetchToolkit(path)).body) as T
+}
+
+export function toolkitSectionPath(section: string): string {
+  return section === 'all' ? '/api/toolkit' : `/api/toolkit?section=${encodeURIComponent(section)}`
+}
+
+// One section of the toolkit ("all" for the whole document), as the API returns it
+export function fetchToolkitSection(section: string): Promise<Record<string, unknown>> {
+  return fetchToolkitJson(toolkitSectionPath(section))
+}
+
+/**
+ * Revalidate cached toolkit paths now, ignoring the TTL. Without paths,
+ * every path cached here or in Redis is refreshed.
+ */
+export async function refreshToolkitCache(paths?: string[]) {
+  let targets = paths
+  if (!targets) {
+    const baseUrl = toolkitBaseUrl()
+    const known = new Set(memoryCache.keys())
+    const redis = await getRedis()
+    if (redis) {
+      try {
+        for await (const key of redis.scanIterator({ MATCH: `${REDIS_KEY_PREFIX}${baseUrl}*`, COUNT: 100 })) {
+          known.add(key.slice(REDIS_KEY_PREFIX.length))
+        }
+      } catch (err) {
+        console.warn(`[MCP] Toolkit cache scan failed: ${err instanceof Error ? err.message : err}`)
+      }
+    }
+    targets = [...known].filter((url) => url.startsWith(baseUrl)).map((url) => url.slice(baseUrl.length))
+  }
+
+  const results = await Promise.all(targets.map(async (path): Promise<{ path: string; source?: ToolkitCacheSource; error?: string }> => {
+    try {
+      const { source } = await fetchToolkit(path, { force: true })
+      return source === 'stale' ? { path, error: 'Toolkit unreachable - kept the cached copy' } : { path, source }
+    } catch (err) {
+      return { path, error: err instanceof Error ? err.message : 'Unknown error' }
+    }
+  }))
+
+  return {
+    refreshed: results.filter((result) => result.source).length,
+    changed: results.filter((result) => result.source === 'network').map((result) => result.path),
+    failed: results.filter((result) => result.error).map(({ path, error }) => ({ path, error })),
+    store: (await getRedis()) ? 'redis' : 'memory',
+  }
+}
@@ -0,0 +1,373 @@
+/**
+ * Voice response mode
+ *
+ * With responseStyle "voice" a tool result gets a short, speakable summary
+ * as its first content item, ahead of the unchanged structured payload:
+ *   "Build failed with 3 TypeScript errors in route.ts"
+ *   "Two agents are working, one is waiting for input"
+ *
+ * The style comes from the call's `responseStyle` argument, else from the
+ * API key's default (responseStyle in MCP_API_KEYS / response_style column).
+ * Summaries are built by deterministic per-tool summarizers over the JSON
+ * payload - no model call - with a generic fallback for other tools.
+ */
+
+import type { createMcpHandler } from 'mcp-handler'
+import { z } from 'zod'
+
+type McpServer = Parameters<Parameters<typeof createMcpHandler>[0]>[0]
+
+export const RESPONSE_STYLES = ['default', 'voice'] as const
+export type ResponseStyle = (typeof RESPONSE_STYLES)[number]
+
+const responseStyleParam = z
+  .enum(RESPONSE_STYLES)
+  .optional()
+  .describe('"voice" adds a short speakable summary before the result (default comes from the API key)')
+
+type Payload = Record<string, unknown>
+type Summarizer = (payload: Payload, args: Payload) => string | null
+
+const MAX_SPOKEN_CHARS = 140
+
+const NUMBER_WORDS = ['no', 'one', 'two', 'three', 'four', 'five', 'six', 'seven', 'eight', 'nine', 'ten']
+
+// Small counts read better as words: "two agents" rather than "2 agents"
+export function countWord(count: number): string {
+  return Number.isInteger(count) && count >= 0 && count < NUMBER_WORDS.length ? NUMBER_WORDS[count] : String(count)
+}
+
+export function plural(count: number, singular: string, pluralForm = `${singular}s`): string {
+  return `${countWord(count)} ${count === 1 ? singular : pluralForm}`
+}
+
+const capitalize = (text: string) => text.charAt(0).toUpperCase() + text.slice(1)
+
+function clip(text: string, max = MAX_SPOKEN_CHARS): string {
+  const clean = text.replace(/\s+/g, ' ').trim()
+  return clean.length > max ? `${clean.slice(0, max - 1).trimEnd()}…` : clean
+}
+
+function listNames(names: string[]): string {
+  const unique = [...new Set(names)]
+  if (unique.length <= 2) return unique.join(' and ')
+  return `${unique.slice(0, 2).join(', ')} and ${plural(unique.length - 2, 'other')}`
+}
+
+const asArray = (value: unknown): unknown[] => (Array.isArray(value) ? value : [])
+
+function asLines(value: unknown): string[] {
+  if (Array.isArray(value)) return value.map(String)
+  if (typeof value === 'string') return value.split('\n')
+  return []
+}
+
+// sanitizedJson wraps a bare list as { output, redacted } when it redacted something
+function unwrapRedacted(payload: unknown): unknown {
+  const wrapper = payload as Payload | null | undefined
+  return wrapper && Array.isArray(wrapper.output) && wrapper.redacted ? wrapper.output : payload
+}
+
+// Lists arrive bare or wrapped ({ terminals: [...] }); find the array either way
+function findList(payload: unknown, key: string): unknown[] {
+  const list = unwrapRedacted(payload)
+  if (Array.isArray(list)) return list
+  const wrapped = (list as Payload | undefined)?.[key]
+  return Array.isArray(wrapped) ? wrapped : []
+}
+
+const basename = (path: string) => path.split(/[\\/]/).pop() || path
+
+/**
+ * Describe what a chunk of terminal output says: compiler errors, failing
+ * tests or the last error line. Returns null when nothing stands out.
+ */
+export function describeOutput(lines: string[]): string | null {
+  const tsErrors = lines.filter((line) => /error TS\d+/.test(line))
+  if (tsErrors.length > 0) {
+    const files = tsErrors
+      .map((line) => line.match(/([\w./\\[\]-]+\.(?:tsx?|jsx?|mts|cts))[(:]/)?.[1])
+      .filter((file): file is string => Boolean(file))
+      .map(basename)
+    return `${plural(tsErrors.length, 'TypeScript error')}${files.length ? ` in ${listNames(files)}` : ''}`
+  }
+
+  const text = lines.join('\n')
+  const failedTests = text.match(/Tests?:?\s+(\d+) failed/i) || text.match(/(\d+) (?:failing|tests? failed)/i)
+  if (failedTests) {
+    return `${plural(Number(failedTests[1]), 'failing test')}`
+  }
+
+  const errorLine = [...lines].reverse().find((line) => /\b(error|failed|fatal|exception)\b|npm ERR!/i.test(line))
+  return errorLine ? clip(errorLine.replace(/^\s*(npm ERR!|error:?)\s*/i, ''), 100) : null
+}
+
+const lastLine = (lines: string[]) => [...lines].reverse().find((line) => line.trim()) || null
+
+function summarizeJob(job: Payload): string {
+  const status = job.status as string | undefined
+  const exitCode = (job.exitCode ?? job.exit_code) as number | null | undefined
+  const lines = asLines(job.output ?? job.lastOutput)
+  const terminal = job.terminal ? ` in ${job.terminal}` : ''
+
+  if (status === 'failed') return `The command could not be sent${terminal}: ${clip(String(job.error || 'unknown error'), 80)}`
+  if (status === 'timed_out') return `The command${terminal} timed out without finishing`
+  if (status === 'queued' || status === 'running') {
+    const last = lastLine(lines)
+    return `The command is still running${terminal}${last ? `. Latest output: ${clip(last, 80)}` : ''}`
+  }
+  if (exitCode === null || exitCode === undefined) return `Command sent${terminal}`
+  if (exitCode === 0) {
+    const last = lastLine(lines)
+    return `The command succeeded${terminal}${last ? `. Last line: ${clip(last, 80)}` : ''}`
+  }
+
+  const problem = describeOutput(lines)
+  const verb = /\b(build|tsc|compile)\b/i.test(String(job.command || '')) ? 'Build' : 'The command'
+  return `${verb} failed with ${problem || `exit code ${exitCode}`}`
+}
+
+// States i-View reports for terminals and agents, as spoken phrases
+const STATE_PHRASES: Record<string, [string, string]> = {
+  working: ['is working', 'are working'],
+  waiting: ['is waiting for input', 'are waiting for input'],
+  sleeping: ['is idle', 'are idle'],
+  idle: ['is idle', 'are idle'],
+  error: ['has an error', 'have errors'],
+}
+
+function summarizeStates(items: unknown[], noun: string): string {
+  if (items.length === 0) return `There are no ${noun}s`
+
+  const counts = new Map<string, number>()
+  for (const item of items) {
+    const state = String((item as Payload)?.state || 'unknown').toLowerCase()
+    counts.set(state, (counts.get(state) || 0) + 1)
+  }
+
+  const parts = [...counts.entries()]
+    .sort((a, b) => b[1] - a[1])
+    .map(([state, count], index) => {
+      const [one, many] = STATE_PHRASES[state] || [`is ${state}`, `are ${state}`]
+      const subject = index === 0 ? plural(count, noun) : countWord(count)
+      return `${subject} ${count === 1 ? one : many}`
+    })
+
+  return capitalize(parts.join(', '))
+}
+
+function summarizeDispatch(dispatch: Payload): string {
+  const stored = (dispatch.counts || {}) as Record<string, number>
+  // Both are still starting, as far as the caller is concerned
+  const counts: Record<string, number> = { ...stored, sent: (stored.sent || 0) + (stored.sending || 0), sending: 0 }
+  const total = Object.values(counts).reduce((sum, count) => sum + count, 0)
+  const parts = ['done', 'working', 'sent', 'pending', 'failed', 'timed_out']
+    .filter((status) => counts[status])
+    .map((status) => `${countWord(counts[status])} ${status === 'sent' ? 'starting' : status.replace('_', ' ')}`)
+  const prefix = dispatch.status === 'running' ? capitalize(plural(total, 'subtask')) : `Dispatch ${dispatch.status === 'completed' ? 'finished' : 'timed out'}`
+  return `${prefix}: ${parts.join(', ')}`
+}
+
+const SUMMARIZERS: Record<string, Summarizer> = {
+  get_current_time: (p) => `It's ${p.formatted}`,
+
+  run_terminal_command: (p) => (p.requiresConfirmation ? null : summarizeJob(p)),
+  check_command_status: (p) => summarizeJob((p.job as Payload) || {}),
+  get_pending_commands: (p) => {
+    const jobs = asArray(p.jobs) as Payload[]
+    if (jobs.length === 0) return 'Nothing is running'
+    return `${capitalize(plural(jobs.length, 'command'))} still running: ${listNames(jobs.map((job) => clip(String(job.command), 40)))}`
+  },
+  get_recent_commands: (p) => {
+    const jobs = asArray(p.jobs) as Payload[]
+    if (jobs.length === 0) return 'No commands have been run yet'
+    const failed = jobs.filter((job) => job.status === 'failed' || job.status === 'timed_out' || (typeof job.exit_code === 'number' && job.exit_code !== 0))
+    const latest = summarizeJob({ ...jobs[0], exitCode: jobs[0].exit_code })
+    return `${capitalize(plural(jobs.length, 'recent command'))}, ${countWord(failed.length)} failed. Latest: ${latest}`
+  },
+  get_terminal_output: (p) => {
+    const lines = asLines(p.output ?? p.lines)
+    const problem = describeOutput(lines)
+    if (problem) return `The terminal shows ${problem}`
+    const last = lastLine(lines)
+    return last ? `Last line in the terminal: ${clip(last)}` : 'The terminal is empty'
+  },
+  wait_for_terminal_output: (p) => {
+    const seconds = Math.round((Number(p.elapsedMs) || 0) / 1000)
+    const state = p.state as Payload | null
+    if (p.reason === 'pattern') return `After ${plural(seconds, 'second')}: ${clip(String(p.line))}`
+    if (p.reason === 'state') return `After ${plural(seconds, 'second')} the terminal went from ${state?.from ?? 'unknown'} to ${state?.to}`
+    if (p.reason === 'cancelled') return 'Stopped waiting'
+    return `Nothing yet after ${plural(seconds, 'second')}`
+  },
+  list_devices: (p) => {
+    const devices = asArray(p.devices) as Payload[]
+    const offline = devices.filter((device) => !device.reachable).map((device) => String(device.name))
+    if (offline.length === 0) return devices.length === 1 ? 'The device is online' : `All ${devices.length} devices are online`
+    const online = devices.length - offline.length
+    return `${capitalize(countWord(online))} of ${countWord(devices.length)} devices ${online === 1 ? 'is' : 'are'} online; ${listNames(offline)} ${offline.length === 1 ? 'is' : 'are'} offline`
+  },
+  get_system_health: (p) => `i-View is up${typeof p.version === 'string' ? `, version ${p.version}` : ''}`,
+  get_snapshot: () => 'Snapshot captured',
+  list_terminals: (p) => summarizeStates(findList(p, 'terminals'), 'terminal'),
+  list_agents: (p) => summarizeStates(findList(p, 'agents'), 'agent'),
+  get_claude_agent_status: (p) => {
+    const prompt = p.permissionPrompt as Payload | null
+    if (prompt) return `Claude is asking: ${clip(String(prompt.question), 100)}`
+    const reply = typeof p.lastReply === 'string' ? p.lastReply : null
+    if (p.state === 'working') return `Claude is still working${reply ? `. Before that it said: ${clip(reply, 100)}` : ''}`
+    return reply ? `Claude said: ${clip(reply, 280)}` : `Claude ${(STATE_PHRASES[String(p.state)] || [`is ${p.state}`])[0]}`
+  },
+  dispatch_subtasks: summarizeDispatch,
+  check_dispatch_status: summarizeDispatch,
+  list_sessions: (p) => `There ${findList(p, 'sessions').length === 1 ? 'is' : 'are'} ${plural(findList(p, 'sessions').length, 'session')}`,
+
+  take_screenshot: () => 'Screenshot taken',
+  get_console_logs: (p) => {
+    const logs = findList(p, 'logs') as Payload[]
+    const errors = logs.filter((log) => String(log?.level || log?.type) === 'error')
+    if (logs.length === 0) return 'The browser console is empty'
+    const latest = errors[errors.length - 1]
+    return `${capitalize(plural(logs.length, 'console message'))}, ${countWord(errors.length)} ${errors.length === 1 ? 'is an error' : 'are errors'}${latest ? `. Latest error: ${clip(String(latest.message ?? latest.text ?? ''), 80)}` : ''}`
+  },
+  query_elements: (p) => `Found ${plural(findList(p, 'elements').length, 'matching element')}`,
+  click_element: (_, a) => `Clicked ${a.text ? `"${a.text}"` : a.selector}`,
+  fill_input: (_, a) => `Filled ${a.selector}`,
+
+  run_browser_flow: (p) => {
+    const steps = asArray(p.steps) as Payload[]
+    const errors = asArray(p.consoleErrors).length
+    const consoleNote = errors ? ` ${capitalize(plural(errors, 'console error'))} logged.` : ''
+    if (p.success) return `All ${plural(steps.length, 'step')} passed in ${Math.round((Number(p.durationMs) || 0) / 1000)} seconds.${consoleNote}`
+    const failed = steps.find((step) => step.status === 'failed')
+    const name = failed?.label || failed?.action
+    return `Step ${Number(failed?.index ?? 0) + 1}, ${name}, failed: ${clip(String(failed?.error), 80)}.${consoleNote}`
+  },
+
+  supabase_query: (p, a) => {
+    const total = typeof p.total === 'number' ? ` of ${p.total}` : ''
+    return `Found ${plural(Number(p.count) || 0, 'row')}${total} in ${a.table}${p.nextCursor ? ', more are available' : ''}`
+  },
+  supabase_insert: (p, a) => `Inserted ${plural(asArray(p.inserted).length, 'row')} into ${a.table}`,
+  supabase_update: (p, a) => (p.dryRun !== undefined ? null : `Updated ${plural(Number(p.updated) || 0, 'row')} in ${a.table}`),
+  supabase_delete: (p, a) => (p.dryRun !== undefined ? null : `Deleted ${plural(Number(p.deleted) || 0, 'row')} from ${a.table}; it can be undone`),
+  restore_deleted_rows: (p) => `Restored ${plural(Number(p.restored) || 0, 'row')} to ${p.table}`,
+  list_supabase_tables: (p) => `There are ${plural(Number(p.count) || 0, 'table')} available`,
+
+  store_memory: (p) => `Remembered ${p.stored}`,
+  recall_memory: (p) => {
+    const memories = asArray(p.memories) as Payload[]
+    if (memories.length === 0) return 'Nothing stored yet'
+    if (memories.length === 1) return `${memories[0].key}: ${clip(String(memories[0].value), 100)}`
+    return `Found ${plural(memories.length, 'memory', 'memories')}: ${listNames(memories.map((memory) => String(memory.key)))}`
+  },
+  search_memory: (p) => {
+    const results = asArray(p.results) as Payload[]
+    if (results.length === 0) return 'Nothing matching was found in memory'
+    return `Best match, ${results[0].key}: ${clip(String(results[0].snippet ?? results[0].value ?? ''), 100)}`
+  },
+  forget_memory: (p) => `Forgot ${plural(Number(p.forgotten) || 0, 'memory', 'memories')}`,
+
+  refresh_toolkit_cache: (p) => {
+    const changed = asArray(p.changed).length
+    const failed = asArray(p.failed).length
+    return `Toolkit refreshed, ${changed ? `${countWord(changed)} changed` : 'nothing changed'}${failed ? `, ${countWord(failed)} failed` : ''}`
+  },
+
+  get_audit_log: (p) => `${capitalize(plural(asArray(p.records).length, 'audit record'))} found`,
+}
+
+// Generic: confirmations, previews, counts and messages share field names across tools
+function fallbackSummary(payload: Payload): string {
+  if (payload.requiresConfirmation) {
+    return payload.operation
+      ? `This would ${payload.operation} ${plural(Number(payload.matched) || 0, 'row')} in ${payload.table}. Please confirm.`
+      : `That needs confirmation${payload.reason ? `: ${payload.reason}` : ''}`
+  }
+  if (payload.dryRun) {
+    return `This would ${payload.operation} ${plural(Number(payload.matched) || 0, 'row')} in ${payload.table}`
+  }
+  if (typeof payload.message === 'string') return clip(payload.message)
+  if (typeof payload.count === 'number') return `${capitalize(plural(payload.count, 'result'))}`
+  if (typeof payload.description === 'string') return clip(payload.description)
+  return payload.success === false ? 'That did not work' : 'Done'
+}
+
+// First sentence of an error, without the "Error:" prefix and URLs
+function errorSummary(text: string): string {
+  const message = text.replace(/^Error:\s*/, '').replace(/\(?https?:\/\/\S+\)?/g, '').split(/(?<=[.!?])\s|\s-\s/)[0]
+  return `That failed: ${clip(message, 120)}`
+}
+
+function parsePayload(text: string | undefined): unknown {
+  if (!text) return null
+  try {
+    return JSON.parse(text)
+  } catch {
+    return null
+  }
+}
+
+export function summarizeForVoice(tool: string, result: unknown, args: Payload): string {
+  const content = (result as { content?: { type: string; text?: string }[] })?.content || []
+  const text = content.find((part) => part.type === 'text')?.text
+
+  if ((result as { isError?: boolean })?.isError) {
+    return errorSummary(text || 'unknown error')
+  }
+
+  // Pass-through tools return i-View's data as is, which may be a bare list
+  const payload = parsePayload(text)
+  if (!payload || typeof payload !== 'object') {
+    return text ? clip(text) : 'Done'
+  }
+
+  let summary: string | null = null
+  try {
+    summary = SUMMARIZERS[tool]?.(payload as Payload, args) ?? null
+  } catch {
+    // A summarizer tripping over an unexpected payload must not fail the call
+    summary = null
+  }
+  if (summary) return summary
+  const list = unwrapRedacted(payload)
+  return Array.isArray(list) ? capitalize(plural(list.length, 'result')) : fallbackSummary(payload as Payload)
+}
+
+/**
+ * Add the responseStyle argument to every tool registered on this server
+ * and prepend a spoken summary when the resolved style is "voice".
+ * Call before registering tools, after auditToolCalls.
+ */
+export function voiceResponses(server: McpServer) {
+  const register = server.tool.bind(server) as (...args: unknown[]) => unknown
+
+  server.tool = ((...args: unknown[]) => {
+    const name = args[0] as string
+    const handler = args[args.length - 1] as (...handlerArgs: unknown[]) => Promise<unknown>
+
+    // Every tool here registers (name, description, shape, handler)
+    if (args.length === 4 && args[2] && typeof args[2] === 'object') {
+      args[2] = { ...(args[2] as Record<string, unknown>), responseStyle: responseStyleParam }
+    }
+
+    args[args.length - 1] = async (...handlerArgs: unknown[]) => {
+      const extra = handlerArgs[handlerArgs.length - 1] as {
+        authInfo?: { extra?: { responseStyle?: ResponseStyle } }
+      }
+      const toolArgs = (handlerArgs.length > 1 ? handlerArgs[0] : {}) as Payload & { responseStyle?: ResponseStyle }
+      const style = toolArgs.responseStyle || extra?.authInfo?.extra?.responseStyle || 'default'
+
+      const result = await handler(...handlerArgs)
+      if (style !== 'voice' || !result || typeof result !== 'object') {
+        return result
+      }
+
+      const summary = summarizeForVoice(name, result, toolArgs)
+      const content = (result as { content?: unknown[] }).content || []
+      return { ...result, content: [{ type: 'text', text: summary }, ...content] }
+    }
+
+    return register(...args)
+  }) as typeof server.tool
+}
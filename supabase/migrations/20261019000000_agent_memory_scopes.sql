@@ -0,0 +1,51 @@
+-- Scoped, expiring agent memories (store_memory / recall_memory / forget_memory)
+--
+-- Memories used to be unique by key alone. They now live in a namespace of
+-- agent_id, conversation_id and user_id ('' = not scoped on that level), and
+-- store_memory upserts on (agent_id, conversation_id, user_id, key).
+-- Existing rows become global memories. Safe to run more than once.
+
+alter table agent_memory
+  add column if not exists agent_id text not null default '',
+  add column if not exists conversation_id text not null default '',
+  add column if not exists user_id text not null default '',
+  add column if not exists expires_at timestamptz;
+
+-- The old unique (key) or primary key (key) would stop two namespaces from
+-- holding the same key. A primary key on key is replaced by one on the full
+-- scope, so the table keeps a primary key.
+do $$
+declare
+  constraint_name text;
+  constraint_type "char";
+  dropped_primary boolean := false;
+begin
+  for constraint_name, constraint_type in
+    select con.conname, con.contype
+    from pg_constraint con
+    where con.conrelid = 'agent_memory'::regclass
+      and con.contype in ('u', 'p')
+      and con.conkey = array[(
+        select attnum from pg_attribute where attrelid = 'agent_memory'::regclass and attname = 'key'
+      )]::smallint[]
+  loop
+    execute format('alter table agent_memory drop constraint %I', constraint_name);
+    dropped_primary := dropped_primary or constraint_type = 'p';
+  end loop;
+
+  if not exists (
+    select 1 from pg_constraint
+    where conrelid = 'agent_memory'::regclass and conname = 'agent_memory_scope_key_unique'
+  ) then
+    if dropped_primary then
+      alter table agent_memory
+        add constraint agent_memory_scope_key_unique primary key (agent_id, conversation_id, user_id, key);
+    else
+      alter table agent_memory
+        add constraint agent_memory_scope_key_unique unique (agent_id, conversation_id, user_id, key);
+    end if;
+  end if;
+end $$;
+
+-- Expired rows are swept with expires_at < now()
+create index if not exists agent_memory_expires_at_idx on agent_memory (expires_at) where expires_at is not null;
@@ -0,0 +1,14 @@
+-- Redeemed confirmation tokens (MCP_CONFIRMATIONS_TABLE)
+--
+-- Confirmation tokens for risky commands and large mutations work once:
+-- redeeming one inserts its nonce here, and a second insert of the same
+-- nonce fails. Rows can be deleted once expires_at has passed. Safe to run
+-- more than once.
+
+create table if not exists mcp_used_confirmations (
+  nonce text primary key,
+  expires_at timestamptz not null,
+  redeemed_at timestamptz not null default now()
+);
+
+create index if not exists mcp_used_confirmations_expires_at_idx on mcp_used_confirmations (expires_at);